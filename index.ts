@@ -2,14 +2,125 @@
 
 import type { ElysiaClerkOptions } from "elysia-clerk";
 import { Elysia } from "elysia";
+import { resolve as resolvePath } from "node:path";
+import { pathToFileURL } from "node:url";
 import type { AuthObject } from "@clerk/backend";
+import {
+	TokenVerificationError,
+	TokenVerificationErrorAction,
+	TokenVerificationErrorReason,
+} from "@clerk/backend/errors";
+import {
+	createCheckAuthorization,
+	isReverificationHint,
+	reverificationError,
+	reverificationErrorResponse,
+	type CheckAuthorization,
+	type CheckAuthorizationParams,
+	type ReverificationConfig,
+} from "./src/authorization";
+import {
+	clerkMatchers,
+	type AuthCall,
+	type AuthorizationCheck,
+	type CredentialType,
+} from "./src/recording";
+import {
+	checkAuthorizedParty,
+	createSigningKey,
+	loadJwtKey,
+	signJwt,
+	toJwks,
+	toPem,
+	decodeJwt,
+	verifyJwt,
+	type JwtPayload,
+	type SigningKey,
+} from "./src/jwt";
+import {
+	AuthErrorReason,
+	QueryParameters,
+	RefreshTokenErrorReason,
+	buildHandshakeUrl,
+	isCrossOriginRequest,
+	isRequestEligibleForHandshake,
+	parsePublishableKey,
+	readSessionCookies,
+	type InstanceType,
+} from "./src/request";
+import {
+	ClerkAPIResponseError,
+	createAPIError,
+	createId,
+	isPlainObject,
+	mergeMetadata,
+	notFound,
+} from "./src/api";
+import { UserStore, createUserApi, toUser, type UserFixture } from "./src/users";
+import {
+	OrganizationStore,
+	createOrganizationApi,
+	toOrganization,
+	type OrganizationFixture,
+	type RolePermissions,
+} from "./src/organizations";
+import {
+	createWebhookSecret,
+	createWebhooks,
+	type BuiltWebhook,
+	type WebhookSignatureOptions,
+} from "./src/webhooks";
+import { validateAuthState } from "./src/validation";
+import { MockClock, toMilliseconds, type Duration } from "./src/clock";
+import { SessionStore, createSessionApi, toSession } from "./src/sessions";
+import { FaultInjector, type FaultOptions } from "./src/faults";
+import { createBackendApi, respond, type BackendApiOptions } from "./src/server";
+import {
+	getOrganizationSyncTarget,
+	type OrganizationSyncOptions,
+	type OrganizationSyncTarget,
+} from "./src/orgsync";
+import {
+	resolveClaims,
+	type ClaimsTemplate,
+	type JwtTemplate,
+	type TemplateContext,
+} from "./src/templates";
+import {
+	BillingStore,
+	type BillingPlans,
+	type Subscription,
+	type SubscriptionOptions,
+} from "./src/billing";
+import {
+	MachineTokenStore,
+	authenticatedMachineObject,
+	getMachineTokenType,
+	isTokenTypeAccepted,
+	unauthenticatedMachineObject,
+	type AcceptsToken,
+	type MachineAuthObject,
+	type MachineTokenOptions,
+	type MachineTokenType,
+	type TokenType,
+} from "./src/machines";
 
 // Create our own AuthStatus enum to avoid internal import
 enum AuthStatus {
-	SignedIn = "signed_in",
-	SignedOut = "signed_out",
+	SignedIn = "signed-in",
+	SignedOut = "signed-out",
+	Handshake = "handshake",
 }
 
+/**
+ * The `act` claim of an impersonation session, identifying who acts on behalf of the user
+ * ([RFC 8693](https://www.rfc-editor.org/rfc/rfc8693.html#name-act-actor-claim))
+ */
+type ActClaim = {
+	sub: string;
+	[claim: string]: unknown;
+};
+
 // Create our own type definition without using internal imports
 // Use a type alias with a simple structure that matches our needs
 type SignedInAuthObject = {
@@ -22,9 +133,12 @@ type SignedInAuthObject = {
 		exp: number;
 		iat: number;
 		roles?: string[];
+		fea?: string;
+		pla?: string;
+		act?: ActClaim;
 	};
 	sessionId: string;
-	actor: any | undefined;
+	actor: ActClaim | undefined;
 	userId: string;
 	orgId: string | undefined;
 	orgRole: string | undefined;
@@ -32,10 +146,53 @@ type SignedInAuthObject = {
 	orgPermissions: string[] | undefined;
 	factorVerificationAge: [firstFactorAge: number, secondFactorAge: number] | null;
 	getToken: () => Promise<string>;
-	has: (permission: string) => boolean;
+	has: CheckAuthorization;
 	debug: () => Record<string, any>;
 };
 
+/**
+ * User data accepted by `setUser` and friends. `sessionClaims.sub` and `sid` are derived
+ * from `userId` and `sessionId`, so the claims only need what differs.
+ */
+type UserData = Omit<Partial<SignedInAuthObject>, "sessionClaims"> & {
+	sessionClaims?: Partial<SignedInAuthObject["sessionClaims"]> & Record<string, unknown>;
+};
+
+/**
+ * A named identity for `clerkMock.as()`, optionally extending another persona
+ */
+type Persona = UserData & {
+	extends?: string;
+};
+
+/**
+ * How long ago the session verified its factors. Without a `secondFactor` the user has
+ * no second factor set up.
+ */
+type FactorVerification = {
+	firstFactor?: Duration;
+	secondFactor?: Duration | null;
+};
+
+type ImpersonationOptions = {
+	/**
+	 * User id of the impersonator, or the complete `act` claim
+	 */
+	impersonator: string | ActClaim;
+	/**
+	 * User id or user data of the impersonated user, defaults to the current mock user
+	 */
+	target?: string | UserData;
+};
+
+const DEFAULT_SESSION_CLAIMS = {
+	__raw: "",
+	iss: "https://clerk.com",
+	nbf: 0,
+	exp: 0,
+	iat: 0,
+};
+
 const DEFAULT_AUTH_OBJECT: AuthObject = {
 	userId: "user_default",
 	orgId: "org_default",
@@ -59,99 +216,436 @@ const DEFAULT_AUTH_OBJECT: AuthObject = {
 	debug: () => ({}),
 };
 
+// Headers Clerk uses to report the outcome of authenticating a request
+const AuthHeaders = {
+	AuthStatus: "x-clerk-auth-status",
+	AuthReason: "x-clerk-auth-reason",
+	AuthMessage: "x-clerk-auth-message",
+} as const;
+
+const DEFAULT_ISSUER = "https://clerk.com";
+
+const DEFAULT_FRONTEND_API = "clerk.mock.accounts.dev";
+
+// Reason Clerk reports for unknown, revoked and expired machine tokens
+const MACHINE_TOKEN_INVALID = "token-invalid";
+
+// Where Clerk's backend SDK loads the JWKS from when no `jwtKey` is configured
+const JWKS_URL = "https://api.clerk.com/v1/jwks";
+
+// Lifetime of minted session tokens when the mocked claims don't set `exp`, matching Clerk's default
+const SESSION_TOKEN_LIFETIME = 60;
+
+const SIGNED_OUT_AUTH_OBJECT: AuthObject = {
+	userId: null,
+	orgId: null,
+	sessionClaims: null,
+	sessionId: null,
+	actor: null,
+	orgRole: null,
+	orgSlug: null,
+	orgPermissions: null,
+	factorVerificationAge: null,
+	getToken: async () => "",
+	has: () => false,
+	debug: () => ({}),
+};
+
+// Built-in personas behind `mockAdmin()` and `mockUser()`
+const DEFAULT_PERSONAS: Record<string, Persona> = {
+	admin: {
+		userId: "user_admin",
+		sessionId: "sess_admin",
+		orgId: "org_admin",
+		orgRole: "org:admin",
+		sessionClaims: { roles: ["org:admin"] },
+	},
+	user: {
+		userId: "user_regular",
+		sessionId: "sess_user",
+		orgId: "org_regular",
+		orgRole: "org:member",
+		sessionClaims: { roles: ["org:member"] },
+	},
+};
+
+// Request header that switches the identity of a single request
+const IDENTITY_HEADER = "x-clerk-mock-identity";
+
+// Issuer of the `act` claim for impersonation sessions started from the Clerk Dashboard
+const IMPERSONATION_ISSUER = "https://dashboard.clerk.com";
+
+// Identity header value that signs the request out
+const SIGNED_OUT_IDENTITY = "signed-out";
+
+/**
+ * How the plugin treats Bearer tokens that were not registered with `registerToken`
+ * - "default": fall back to the current mock user
+ * - "reject": respond with 401
+ */
+type UnknownTokenPolicy = "default" | "reject";
+
+/**
+ * Outcome of authenticating a request, mirroring the statuses of Clerk's `RequestState`
+ */
+type MockRequestState =
+	| {
+			status: AuthStatus.SignedIn;
+			auth: AuthObject;
+			token: string;
+			headers: Headers;
+			tokenType?: TokenType;
+	  }
+	| {
+			status: AuthStatus.SignedOut | AuthStatus.Handshake;
+			reason: string;
+			message: string;
+			headers: Headers;
+			/**
+			 * Token type the signed out auth object is shaped after, `null` when a route accepting
+			 * several types got none of them. Session tokens when omitted.
+			 */
+			tokenType?: TokenType | null;
+	  };
+
+/**
+ * Result of `clerk.authenticateRequest()`, shaped like Clerk's `RequestState`. `toAuth()`
+ * returns the signed in or signed out auth object, or `null` for a handshake.
+ */
+type RequestState = {
+	status: AuthStatus;
+	reason: string | null;
+	message: string | null;
+	proxyUrl: string;
+	publishableKey: string;
+	isSatellite: boolean;
+	domain: string;
+	signInUrl: string;
+	signUpUrl: string;
+	afterSignInUrl: string;
+	afterSignUpUrl: string;
+	isSignedIn: boolean;
+	headers: Headers;
+	token: string | null;
+	tokenType: TokenType | null;
+	toAuth: () => AuthObject | MachineAuthObject | null;
+};
+
+/**
+ * Decide the identity of a single request: user data or an auth object signs the request
+ * in, `null` signs it out and `undefined` falls back to regular authentication
+ */
+type ResolveAuth = (
+	request: Request
+) => UserData | null | undefined | Promise<UserData | null | undefined>;
+
+/**
+ * Options accepted by the mocked `clerkPlugin()`
+ */
+type MockPluginOptions = ElysiaClerkOptions & {
+	resolveAuth?: ResolveAuth;
+	/**
+	 * Token types requests may authenticate with, session tokens by default
+	 */
+	acceptsToken?: AcceptsToken;
+	/**
+	 * URL patterns that activate an organization or the personal account of the session
+	 */
+	organizationSyncOptions?: OrganizationSyncOptions;
+};
+
+/**
+ * Plugin options resolved for a request, the way Clerk's `AuthenticateContext` does
+ */
+type AuthenticateContext = {
+	instanceType: InstanceType;
+	frontendApi: string;
+	publishableKey?: string;
+	authorizedParties?: string[];
+	jwtKey?: string;
+	isSatellite: boolean;
+	domain?: string;
+	proxyUrl?: string;
+	signInUrl?: string;
+	signUpUrl?: string;
+	afterSignInUrl?: string;
+	afterSignUpUrl?: string;
+	/**
+	 * Why loading the JWKS failed for this request, when a fault was injected
+	 */
+	jwksError?: TokenVerificationError;
+	/**
+	 * The organization or personal account the request URL asks to activate
+	 */
+	organizationSyncTarget: OrganizationSyncTarget | null;
+};
+
+type ElysiaClerkMockOptions = {
+	unknownTokenPolicy?: UnknownTokenPolicy;
+	/**
+	 * Verify presented Bearer tokens against the mock's signing key instead of
+	 * resolving them to the mock user
+	 */
+	verifyTokens?: boolean;
+	/**
+	 * Respond with 401 when a request can't be authenticated, instead of resolving
+	 * `auth` to a signed out object like the real plugin does
+	 */
+	requireAuth?: boolean;
+	/**
+	 * Require a publishable and secret key, from the plugin options or the
+	 * `CLERK_PUBLISHABLE_KEY` and `CLERK_SECRET_KEY` environment variables, and fail
+	 * requests with Clerk's configuration errors when one is missing
+	 */
+	requireKeys?: boolean;
+	/**
+	 * Expected `iss` claim when verifying tokens
+	 */
+	issuer?: string;
+	/**
+	 * Tolerance applied to `exp`, `nbf` and `iat` when verifying tokens
+	 */
+	clockSkewInMs?: number;
+	/**
+	 * Development instances require a dev browser token for cookie based requests
+	 */
+	instanceType?: InstanceType;
+	/**
+	 * Frontend API host handshake redirects point to
+	 */
+	frontendApi?: string;
+	/**
+	 * User records the mocked `clerk.users` API starts with
+	 */
+	users?: UserFixture[];
+	/**
+	 * Organizations and memberships the mocked `clerk.organizations` API starts with
+	 */
+	organizations?: OrganizationFixture[];
+	/**
+	 * Permissions granted by each organization role when a membership's role changes
+	 */
+	rolePermissions?: RolePermissions;
+	/**
+	 * Features included in each billing plan, by plan slug
+	 */
+	plans?: BillingPlans;
+	/**
+	 * Plans users and organizations start subscribed to, by user or organization id
+	 */
+	subscriptions?: Record<string, string>;
+	/**
+	 * Custom claims added to every session token, with shortcodes like
+	 * `{{user.public_metadata.tenant}}` resolved against the signed in user
+	 */
+	sessionTokenClaims?: ClaimsTemplate;
+	/**
+	 * JWT templates `getToken({ template })` mints tokens from, by name
+	 */
+	jwtTemplates?: Record<string, JwtTemplate>;
+	/**
+	 * `whsec_` secret webhook events are signed with, generated when omitted
+	 */
+	webhookSecret?: string;
+	/**
+	 * Per-request identity override used when the plugin options don't provide one
+	 */
+	resolveAuth?: ResolveAuth;
+	/**
+	 * Named personas for `as()` and the identity header, added to the built-in
+	 * `admin` and `user` personas
+	 */
+	personas?: Record<string, Persona>;
+};
+
+// Distinguishes the plugins of separate instances, which Elysia would otherwise deduplicate
+let instanceCount = 0;
+
 /**
  * Class that handles Clerk authentication mocking
  */
 class ElysiaClerkMock {
+	private instanceId = ++instanceCount;
 	private authObject: AuthObject;
 	private defaultAuthObject: AuthObject;
+	private tokens = new Map<string, AuthObject>();
+	private unknownTokenPolicy: UnknownTokenPolicy;
+	private defaultUnknownTokenPolicy: UnknownTokenPolicy;
+	private verifyTokens: boolean;
+	private requireAuth: boolean;
+	private defaultRequireAuth: boolean;
+	private requireKeys: boolean;
+	private defaultRequireKeys: boolean;
+	private defaultVerifyTokens: boolean;
+	private resolveAuth?: ResolveAuth;
+	private defaultResolveAuth?: ResolveAuth;
+	private issuer: string;
+	private clockSkewInMs?: number;
+	private instanceType: InstanceType;
+	private frontendApi: string;
+	private _signingKey?: SigningKey;
+	private users: UserStore;
+	private userFixtures: UserFixture[];
+	private organizations: OrganizationStore;
+	private organizationFixtures: OrganizationFixture[];
+	private personas = new Map<string, Persona>();
+	private recordedCalls: AuthCall[] = [];
+	private faults = new FaultInjector();
+	private personaFixtures: Record<string, Persona>;
+	private sessions: SessionStore;
+	private machineTokens: MachineTokenStore;
+	private billing: BillingStore;
+	private subscriptionFixtures: Record<string, string>;
+	private sessionTokenClaims: ClaimsTemplate;
+	private defaultSessionTokenClaims: ClaimsTemplate;
+	private jwtTemplates = new Map<string, JwtTemplate>();
+	private jwtTemplateFixtures: Record<string, JwtTemplate>;
+
+	/**
+	 * Time session tokens are minted and verified at, sessions expire against and records
+	 * are timestamped with. `clerkMock.clock.advance("61s")` lets the current session token
+	 * expire.
+	 */
+	readonly clock = new MockClock();
 
-	constructor(initialUser?: Partial<SignedInAuthObject>) {
+	/**
+	 * Build Clerk webhook events with valid, tampered or expired Svix signatures
+	 */
+	readonly webhooks: ReturnType<typeof createWebhooks>;
+
+	constructor(initialUser?: UserData, options: ElysiaClerkMockOptions = {}) {
 		// Default user values
-		this.authObject = {
-			...DEFAULT_AUTH_OBJECT,
-			...initialUser,
-		} as AuthObject;
+		this.authObject = this.createAuthObject(DEFAULT_AUTH_OBJECT, initialUser);
+		this.assertValidAuthState(this.authObject);
 		this.defaultAuthObject = { ...this.authObject };
+		this.unknownTokenPolicy = options.unknownTokenPolicy ?? "default";
+		this.defaultUnknownTokenPolicy = this.unknownTokenPolicy;
+		this.verifyTokens = options.verifyTokens ?? false;
+		this.defaultVerifyTokens = this.verifyTokens;
+		this.requireAuth = options.requireAuth ?? false;
+		this.defaultRequireAuth = this.requireAuth;
+		this.requireKeys = options.requireKeys ?? false;
+		this.defaultRequireKeys = this.requireKeys;
+		this.resolveAuth = options.resolveAuth;
+		this.defaultResolveAuth = this.resolveAuth;
+		this.issuer = options.issuer ?? DEFAULT_ISSUER;
+		this.clockSkewInMs = options.clockSkewInMs;
+		this.instanceType = options.instanceType ?? "production";
+		this.frontendApi = options.frontendApi ?? DEFAULT_FRONTEND_API;
+		this.userFixtures = options.users ?? [];
+		this.users = new UserStore(this.clock);
+		this.users.seed(this.userFixtures);
+		this.organizations = new OrganizationStore(this.users, this.clock, options.rolePermissions);
+		this.organizationFixtures = options.organizations ?? [];
+		this.organizations.seed(this.organizationFixtures);
+		this.sessions = new SessionStore(this.clock);
+		this.machineTokens = new MachineTokenStore(this.clock);
+		this.billing = new BillingStore(options.plans);
+		this.subscriptionFixtures = options.subscriptions ?? {};
+		this.billing.seed(this.subscriptionFixtures);
+		this.sessionTokenClaims = options.sessionTokenClaims ?? {};
+		this.defaultSessionTokenClaims = this.sessionTokenClaims;
+		this.jwtTemplateFixtures = options.jwtTemplates ?? {};
+		this.setJwtTemplates(this.jwtTemplateFixtures);
+		this.linkIdentity(this.authObject, "create");
+		this.personaFixtures = options.personas ?? {};
+		this.definePersonas({ ...DEFAULT_PERSONAS, ...this.personaFixtures });
+		this.webhooks = createWebhooks({
+			secret: options.webhookSecret ?? createWebhookSecret(),
+			users: this.users,
+			organizations: this.organizations,
+			sessions: this.sessions,
+			clock: this.clock,
+			currentIdentity: () => this.authObject,
+		});
 	}
 
 	/**
-	 * Set the mock user to an admin user
+	 * Set the mock user to an admin user, starting from the default user like `as("admin")`
 	 */
-	mockAdmin(customProps: Partial<SignedInAuthObject> = {}) {
-		this.setUser({
-			userId: "user_admin",
-			orgId: "org_admin",
-			orgRole: "org:admin",
-			sessionClaims: {
-				__raw: "",
-				sub: "user_admin",
-				iss: "https://clerk.com",
-				sid: "sess_admin",
-				nbf: 0,
-				exp: 0,
-				iat: 0,
-				roles: ["org:admin"],
-			},
-			...customProps,
-		});
-		return { ...this.authObject };
+	mockAdmin(customProps: UserData = {}) {
+		return this.as("admin", customProps);
 	}
 
 	/**
-	 * Set the mock user to a regular user
+	 * Set the mock user to a regular user, starting from the default user like `as("user")`
 	 */
-	mockUser(customProps: Partial<SignedInAuthObject> = {}) {
-		this.setUser({
-			userId: "user_regular",
-			orgId: "org_regular",
-			orgRole: "org:member",
-			sessionClaims: {
-				__raw: "",
-				sub: "user_regular",
-				iss: "https://clerk.com",
-				sid: "sess_user",
-				nbf: 0,
-				exp: 0,
-				iat: 0,
-				roles: ["org:member"],
-			},
-			...customProps,
-		});
-		return { ...this.authObject };
+	mockUser(customProps: UserData = {}) {
+		return this.as("user", customProps);
 	}
 
 	/**
 	 * Set the mock user to an unauthenticated state
 	 */
 	mockUnauthenticated() {
-		this.authObject = {
-			userId: null,
-			orgId: null,
-			sessionClaims: null,
-			sessionId: null,
-			actor: null,
-			orgRole: null,
-			orgSlug: null,
-			orgPermissions: null,
-			factorVerificationAge: null,
-			getToken: async () => "",
-			has: () => false,
-			debug: () => ({}),
-		};
+		this.authObject = this.createAuthObject(SIGNED_OUT_AUTH_OBJECT);
 		return { ...this.authObject };
 	}
 
 	/**
 	 * Set custom user data
 	 */
-	setUser(userData: Partial<SignedInAuthObject>) {
-		// Use type assertion to handle the complex type requirements
-		this.authObject = {
-			...this.authObject,
-			...userData,
-		} as AuthObject;
-		return { ...this.authObject };
+	setUser(userData: UserData) {
+		return this.signIn(this.authObject, userData);
+	}
+
+	/**
+	 * Start an impersonation session: the target is signed in with `actor`, the session
+	 * claims' `act` and the session token all naming the impersonator
+	 */
+	mockImpersonation({ impersonator, target }: ImpersonationOptions) {
+		const actor =
+			typeof impersonator === "string"
+				? { sub: impersonator, iss: IMPERSONATION_ISSUER }
+				: impersonator;
+		// Like `as()`, a named target starts from the default user instead of the current one.
+		// Impersonating signs the target in with a session of its own.
+		const impersonated = this.signIn(target === undefined ? this.authObject : DEFAULT_AUTH_OBJECT, {
+			sessionId: createId("sess"),
+			...(typeof target === "string" ? { userId: target } : target),
+			actor,
+		});
+		this.users.ensure(actor.sub);
+		return impersonated;
+	}
+
+	/**
+	 * Switch the mock user to a named persona, optionally adjusting it for this test.
+	 * Session claim overrides are merged into the persona's.
+	 */
+	as(name: string, overrides: UserData = {}) {
+		const persona = this.resolvePersona(name);
+		return this.signIn(DEFAULT_AUTH_OBJECT, {
+			...persona,
+			...overrides,
+			sessionClaims: { ...persona.sessionClaims, ...overrides.sessionClaims },
+		});
+	}
+
+	/**
+	 * Add or replace named personas. A persona can `extend` another one, inheriting its
+	 * data and session claims.
+	 */
+	definePersonas(personas: Record<string, Persona>) {
+		for (const [name, persona] of Object.entries(personas)) {
+			this.personas.set(name, persona);
+		}
+	}
+
+	/**
+	 * Load personas from a JSON or TypeScript fixture file exporting them as its default export
+	 */
+	async loadPersonas(path: string) {
+		const fixtures = await import(pathToFileURL(resolvePath(path)).href);
+		this.definePersonas(fixtures.default ?? fixtures);
+	}
+
+	/**
+	 * Every request the mock authenticated since the last `reset()`, oldest first, with the
+	 * `has()` checks evaluated for it
+	 */
+	get calls(): readonly AuthCall[] {
+		return this.recordedCalls;
 	}
 
 	/**
@@ -161,61 +655,1529 @@ class ElysiaClerkMock {
 		return { ...this.authObject };
 	}
 
+	/**
+	 * Switch the active organization of a session, the mock user's by default, like
+	 * `setActive({ organization })` does. `null` switches to the personal account. Registered
+	 * tokens of the session follow the switch.
+	 */
+	switchOrganization(orgId: string | null, { sessionId = this.authObject.sessionId } = {}) {
+		const identity = [this.authObject, ...this.tokens.values()].find(
+			(authObject) => sessionId && authObject.sessionId === sessionId
+		);
+		if (!identity?.userId) {
+			throw new Error(
+				sessionId ? `Unknown session "${sessionId}"` : "Can't switch organizations while signed out"
+			);
+		}
+		if (orgId !== null && !this.organizations.findMembership(orgId, identity.userId)) {
+			throw new Error(`User ${identity.userId} is not a member of organization ${orgId}`);
+		}
+		this.activateOrganization(sessionId!, orgId);
+		return this.getUser();
+	}
+
+	/**
+	 * Register an identity that is resolved whenever the given Bearer token is presented
+	 */
+	registerToken(token: string, userData: UserData) {
+		const authObject = this.createAuthObject(DEFAULT_AUTH_OBJECT, userData);
+		this.assertValidAuthState(authObject);
+		this.tokens.set(token, authObject);
+		this.linkIdentity(
+			authObject,
+			"orgRole" in userData || "orgPermissions" in userData ? "sync" : "create"
+		);
+		return { ...authObject };
+	}
+
+	/**
+	 * End a session the way signing out does, by default the mock user's current one.
+	 * Requests using it are signed out afterwards.
+	 */
+	endSession(sessionId = this.authObject.sessionId) {
+		if (!sessionId) {
+			throw new Error("The mock user is signed out, pass the session to end");
+		}
+		return toSession(this.sessions.setStatus(sessionId, "ended"));
+	}
+
+	/**
+	 * Mark the mock user's session as having verified its factors the given time ago,
+	 * e.g. `verifyFactors({ firstFactor: "5m", secondFactor: "5m" })`. The ages keep growing
+	 * with the mock clock, so `has({ reverification })` is evaluated as time passes.
+	 */
+	verifyFactors({ firstFactor = 0, secondFactor = null }: FactorVerification = {}) {
+		const { sessionId } = this.authObject;
+		if (!sessionId) {
+			throw new Error("The mock user is signed out, sign in before verifying factors");
+		}
+		const now = this.clock.now();
+		this.sessions.verifyFactors(sessionId, {
+			firstFactor: now - toMilliseconds(firstFactor),
+			secondFactor: secondFactor === null ? null : now - toMilliseconds(secondFactor),
+		});
+		return this.setUser({
+			factorVerificationAge: this.sessions.factorVerificationAge(sessionId),
+		});
+	}
+
+	/**
+	 * Subscribe a user or organization to a billing plan, replacing its current plan to
+	 * upgrade or downgrade it. Sessions of the user, or with the organization active, get
+	 * the plan and its features in their `pla` and `fea` claims from the next request on.
+	 */
+	setSubscription(payerId: string, plan: string, options?: SubscriptionOptions): Subscription {
+		return { ...this.billing.subscribe(payerId, plan, options) };
+	}
+
+	/**
+	 * Cancel the subscription of a user or organization, removing its plan and features
+	 */
+	cancelSubscription(payerId: string) {
+		return this.billing.cancel(payerId);
+	}
+
+	/**
+	 * Set the custom claims added to every session token. String values may contain
+	 * shortcodes like `{{user.public_metadata.tenant}}` or `{{org.slug || 'personal'}}`.
+	 */
+	setSessionTokenClaims(claims: ClaimsTemplate) {
+		this.sessionTokenClaims = claims;
+	}
+
+	/**
+	 * Define or replace the JWT template `getToken({ template: name })` mints tokens from
+	 */
+	setJwtTemplate(name: string, template: JwtTemplate) {
+		this.jwtTemplates.set(name, template);
+	}
+
+	/**
+	 * Remove a previously registered token
+	 */
+	unregisterToken(token: string) {
+		return this.tokens.delete(token);
+	}
+
+	/**
+	 * Issue an API key, M2M token or OAuth access token that authenticates requests on
+	 * routes accepting its type. API keys and OAuth tokens act for the mock user unless
+	 * a `subject` is given, M2M tokens for the machine `mch_default`.
+	 */
+	issueMachineToken(tokenType: MachineTokenType, options: MachineTokenOptions = {}) {
+		const subject =
+			options.subject ??
+			(tokenType === "m2m_token" ? "mch_default" : (this.authObject.userId ?? "user_default"));
+		return this.machineTokens.issue(tokenType, subject, options);
+	}
+
+	/**
+	 * Revoke a machine token, so requests presenting it are signed out
+	 */
+	revokeMachineToken(token: string) {
+		this.machineTokens.revoke(token);
+	}
+
+	/**
+	 * Add user records to the mocked `clerk.users` API, replacing records with the same id
+	 */
+	seedUsers(fixtures: UserFixture[]) {
+		return this.users.seed(fixtures).map(toUser);
+	}
+
+	/**
+	 * Add organizations and their memberships to the mocked `clerk.organizations` API
+	 */
+	seedOrganizations(fixtures: OrganizationFixture[]) {
+		return this.organizations
+			.seed(fixtures)
+			.map((data) => toOrganization(this.organizations.toOrganizationJSON(data)));
+	}
+
+	/**
+	 * Set how Bearer tokens without a registered identity are handled
+	 */
+	setUnknownTokenPolicy(policy: UnknownTokenPolicy) {
+		this.unknownTokenPolicy = policy;
+	}
+
+	/**
+	 * Enable or disable verification of presented Bearer tokens
+	 */
+	setVerifyTokens(enabled: boolean) {
+		this.verifyTokens = enabled;
+	}
+
+	/**
+	 * Enable or disable rejecting unauthenticated requests with 401
+	 */
+	setRequireAuth(enabled: boolean) {
+		this.requireAuth = enabled;
+	}
+
+	/**
+	 * Enable or disable requiring a publishable and secret key like the real plugin does
+	 */
+	setRequireKeys(enabled: boolean) {
+		this.requireKeys = enabled;
+	}
+
+	/**
+	 * Set the per-request identity override, or remove it with `undefined`
+	 */
+	setResolveAuth(resolveAuth: ResolveAuth | undefined) {
+		this.resolveAuth = resolveAuth;
+	}
+
+	/**
+	 * Sign arbitrary claims with the mock's signing key, e.g. to build expired
+	 * or foreign tokens for verification tests
+	 */
+	signToken(claims: JwtPayload) {
+		return signJwt(claims, this.signingKey);
+	}
+
+	/**
+	 * Get the JWKS document containing the public key session tokens are signed with
+	 */
+	getJwks() {
+		return toJwks(this.signingKey);
+	}
+
+	/**
+	 * Get the PEM public key session tokens are signed with, for the `jwtKey` plugin option
+	 */
+	getJwtKey() {
+		return toPem(this.signingKey);
+	}
+
+	/**
+	 * Create an Elysia plugin serving the JWKS document, so services verifying
+	 * Clerk tokens themselves can be pointed at the mock
+	 */
+	jwks = (path = "/.well-known/jwks.json") => {
+		return new Elysia({
+			name: "elysia-clerk-mock-jwks",
+			seed: path,
+		}).get(path, () => respond(() => this.loadJwks()));
+	};
+
+	/**
+	 * Create an Elysia app serving the mocked Backend API under `/v1`: users, organizations,
+	 * sessions, session verification and the JWKS. It shares this instance's state, so
+	 * services using the real `@clerk/backend` SDK with `CLERK_API_URL` pointed at it see
+	 * the same identities as the mocked plugin.
+	 */
+	backendApi = (options?: BackendApiOptions) => {
+		return createBackendApi(
+			{
+				...this.createClerkClient(),
+				loadJwks: () => this.loadJwks(),
+				verifyToken: async (token) => {
+					const { data, errors } = verifyJwt(token, {
+						key: this.signingKey,
+						issuer: this.issuer,
+						clockSkewInMs: this.clockSkewInMs,
+						currentTime: this.clock.now(),
+					});
+					if (errors) {
+						throw createAPIError(
+							400,
+							"session_token_invalid",
+							"invalid session token",
+							errors[0].message
+						);
+					}
+					return data;
+				},
+				createToken: (sessionId, template) => this.createSessionToken(sessionId, template),
+			},
+			options
+		);
+	};
+
+	/**
+	 * Mint a session token, or a token from a JWT template, for a session of the mocked
+	 * identities, as the Backend API's `/sessions/{id}/tokens` endpoints do
+	 */
+	private async createSessionToken(sessionId: string, template?: string) {
+		const session = this.sessions.get(sessionId);
+		if (session.status !== "active") {
+			throw createAPIError(
+				400,
+				"session_not_active",
+				"session not active",
+				`Session ${sessionId} is ${session.status}`
+			);
+		}
+		const identity =
+			[this.authObject, ...this.tokens.values()].find(
+				(authObject) => authObject.sessionId === sessionId
+			) ??
+			this.createAuthObject(DEFAULT_AUTH_OBJECT, {
+				userId: session.user_id,
+				sessionId,
+				orgId: undefined,
+				orgRole: undefined,
+			});
+		const authObject = this.withCustomClaims(this.withBilling(this.withMembership(identity)));
+		return template
+			? this.signTemplateToken(authObject, template)
+			: this.signSessionToken(authObject).__raw;
+	}
+
+	/**
+	 * Load the JWKS document through the injected `"jwks"` faults
+	 */
+	private async loadJwks() {
+		const error = await this.faults.apply("jwks");
+		if (error) {
+			throw error;
+		}
+		return this.getJwks();
+	}
+
+	/**
+	 * Make calls to the mocked Backend API or the JWKS endpoint fail or respond slowly.
+	 * The target is a method like `"users.getUser"`, a namespace like `"users.*"`, `"*"` for
+	 * every Backend API method, or `"jwks"` for the key fetch behind session token
+	 * verification and the `jwks()` route.
+	 */
+	injectFault(target: string, fault: FaultOptions) {
+		this.faults.add(target, fault);
+	}
+
+	/**
+	 * Remove every injected fault
+	 */
+	clearFaults() {
+		this.faults.clear();
+	}
+
 	/**
 	 * Reset the mock user to the default state
 	 */
 	reset() {
 		this.authObject = { ...this.defaultAuthObject };
+		this.tokens.clear();
+		this.recordedCalls = [];
+		this.faults.clear();
+		this.unknownTokenPolicy = this.defaultUnknownTokenPolicy;
+		this.verifyTokens = this.defaultVerifyTokens;
+		this.requireAuth = this.defaultRequireAuth;
+		this.requireKeys = this.defaultRequireKeys;
+		this.resolveAuth = this.defaultResolveAuth;
+		this.personas.clear();
+		this.definePersonas({ ...DEFAULT_PERSONAS, ...this.personaFixtures });
+		this.users.clear();
+		this.users.seed(this.userFixtures);
+		this.organizations.clear();
+		this.organizations.seed(this.organizationFixtures);
+		this.clock.reset();
+		this.sessions.clear();
+		this.machineTokens.clear();
+		this.billing.clear();
+		this.billing.seed(this.subscriptionFixtures);
+		this.sessionTokenClaims = this.defaultSessionTokenClaims;
+		this.jwtTemplates.clear();
+		this.setJwtTemplates(this.jwtTemplateFixtures);
+		this.linkIdentity(this.authObject, "create");
 	}
 
 	/**
-	 * Create a mock Clerk client
+	 * Replace the mock user with user data merged into `base`, once it passed validation
 	 */
-	private get mockClerkClient() {
+	private signIn(base: AuthObject, userData: UserData) {
+		const authObject = this.createAuthObject(base, userData);
+		this.assertValidAuthState(authObject);
+		this.authObject = authObject;
+		this.linkIdentity(
+			this.authObject,
+			"orgRole" in userData || "orgPermissions" in userData ? "sync" : "create"
+		);
+		return { ...this.authObject };
+	}
+
+	/**
+	 * Make sure the user, session, organization and membership an identity refers to exist
+	 * in the stores, so `clerk.users.getUser(auth.userId)` resolves. A missing membership is
+	 * created, `"sync"` also overwrites an existing one with the identity's role and
+	 * permissions, and `"skip"` leaves memberships alone.
+	 */
+	private linkIdentity(authObject: AuthObject, membership: "create" | "sync" | "skip") {
+		const { userId, sessionId, actor, orgId, orgSlug, orgRole, orgPermissions } = authObject;
+		if (!userId) {
+			return;
+		}
+		this.users.ensure(userId);
+		this.sessions.ensure(sessionId, userId, actor, orgId);
+		this.sessions.setActiveOrganization(sessionId, orgId ?? null);
+		if (!orgId) {
+			return;
+		}
+		this.organizations.ensure(orgId, orgSlug ?? undefined);
+		if (membership === "skip") {
+			return;
+		}
+		if (membership === "sync" || !this.organizations.findMembership(orgId, userId)) {
+			this.organizations.setMembership(
+				orgId,
+				userId,
+				orgRole ?? "org:member",
+				orgPermissions ?? undefined
+			);
+		}
+	}
+
+	/**
+	 * Make an organization, or the personal account with `null`, active for a session and
+	 * every mocked identity using it
+	 */
+	private activateOrganization(sessionId: string, orgId: string | null) {
+		this.sessions.setActiveOrganization(sessionId, orgId);
+		const activate = (authObject: AuthObject) =>
+			authObject.sessionId === sessionId ? this.withOrganization(authObject, orgId) : authObject;
+		this.authObject = activate(this.authObject);
+		for (const [token, authObject] of this.tokens) {
+			this.tokens.set(token, activate(authObject));
+		}
+	}
+
+	/**
+	 * Point a signed in auth object at another active organization, taking the role and
+	 * permissions from the membership, or at the personal account with `null`. Identities
+	 * that aren't a member of the organization keep their active organization.
+	 */
+	private withOrganization(authObject: AuthObject, orgId: string | null): AuthObject {
+		if ((authObject.orgId ?? null) === orgId) {
+			return authObject;
+		}
+		if (orgId === null) {
+			return this.createAuthObject(authObject, {
+				orgId: undefined,
+				orgRole: undefined,
+				orgSlug: undefined,
+				orgPermissions: undefined,
+			});
+		}
+		const membership = this.organizations.findMembership(orgId, authObject.userId!);
+		if (!membership) {
+			return authObject;
+		}
+		const { role, permissions } = membership;
+		return this.createAuthObject(authObject, {
+			orgId,
+			orgRole: role,
+			orgSlug: this.organizations.get({ organizationId: orgId }).slug,
+			orgPermissions: permissions,
+		});
+	}
+
+	/**
+	 * Activate the organization or personal account a request's URL asks for, like Clerk's
+	 * organization sync. Organizations that don't exist or the user isn't a member of leave
+	 * the active organization unchanged. With `persist` the switch sticks to the session and
+	 * the mocked identities using it, otherwise it only applies to this auth object.
+	 */
+	private withOrganizationSync(
+		authObject: AuthObject,
+		target: OrganizationSyncTarget | null,
+		persist: boolean
+	): AuthObject {
+		const { userId, sessionId } = authObject;
+		if (!target || !userId || !sessionId) {
+			return authObject;
+		}
+		const orgId =
+			target.type === "personalAccount"
+				? null
+				: this.organizations
+						.list()
+						.find(({ id, slug }) =>
+							target.organizationId
+								? id === target.organizationId
+								: slug === target.organizationSlug
+						)?.id;
+		if (orgId === undefined || (orgId && !this.organizations.findMembership(orgId, userId))) {
+			return authObject;
+		}
+		if (persist) {
+			this.activateOrganization(sessionId, orgId);
+		}
+		return this.withOrganization(authObject, orgId);
+	}
+
+	/**
+	 * Apply the current membership records to a signed in auth object, so role changes made
+	 * through `clerk.organizations` show up on the next request. Values the identity already
+	 * agrees with are left untouched, and so are the role and permissions a request scoped
+	 * identity `declared`, along with its organization when it has no membership record.
+	 */
+	private withMembership(authObject: AuthObject, declared?: UserData): AuthObject {
+		const { userId, orgId } = authObject;
+		if (!userId || !orgId) {
+			return authObject;
+		}
+
+		const membership = this.organizations.findMembership(orgId, userId);
+		if (!membership && declared) {
+			return authObject;
+		}
+		if (!membership) {
+			// The user was removed from the organization, so the session has no active organization
+			return this.createAuthObject(authObject, {
+				orgId: undefined,
+				orgRole: undefined,
+				orgSlug: undefined,
+				orgPermissions: undefined,
+			});
+		}
+
+		const { slug } = this.organizations.get({ organizationId: orgId });
+		const changes: UserData = {};
+		if (!(declared && "orgRole" in declared) && membership.role !== authObject.orgRole) {
+			changes.orgRole = membership.role;
+		}
+		if (
+			!(declared && "orgPermissions" in declared) &&
+			membership.permissions.join() !== (authObject.orgPermissions ?? []).join()
+		) {
+			changes.orgPermissions = membership.permissions;
+		}
+		if (slug !== (authObject.orgSlug ?? orgId)) {
+			changes.orgSlug = slug;
+		}
+		return Object.keys(changes).length ? this.createAuthObject(authObject, changes) : authObject;
+	}
+
+	private setJwtTemplates(templates: Record<string, JwtTemplate>) {
+		for (const [name, template] of Object.entries(templates)) {
+			this.setJwtTemplate(name, template);
+		}
+	}
+
+	/**
+	 * The user, organization and session shortcodes of claim templates resolve against
+	 */
+	private templateContext(authObject: AuthObject): TemplateContext {
+		const user = authObject.userId ? this.users.find(authObject.userId) : undefined;
+		const organization = this.organizations.list().find(({ id }) => id === authObject.orgId);
 		return {
-			authenticateRequest: (_request: Request) => ({
-				toAuth: () => ({
-					userId: this.authObject.userId,
-					orgId: this.authObject.orgId,
-					isAuthenticated: this.authObject.userId !== null,
+			user: user && {
+				...user,
+				primary_email_address:
+					user.email_addresses.find(({ id }) => id === user.primary_email_address_id)
+						?.email_address ?? null,
+				primary_phone_number:
+					user.phone_numbers.find(({ id }) => id === user.primary_phone_number_id)?.phone_number ??
+					null,
+			},
+			org: authObject.orgId
+				? {
+						...(organization && this.organizations.toOrganizationJSON(organization)),
+						id: authObject.orgId,
+						slug: authObject.orgSlug ?? organization?.slug ?? null,
+						role: authObject.orgRole,
+						membership_permissions: authObject.orgPermissions ?? [],
+					}
+				: undefined,
+			session: { id: authObject.sessionId, actor: authObject.actor ?? null },
+		};
+	}
+
+	/**
+	 * Resolve the custom session token claims for a signed in auth object
+	 */
+	private customClaims(authObject: AuthObject) {
+		if (authObject.userId === null || !Object.keys(this.sessionTokenClaims).length) {
+			return {};
+		}
+		return resolveClaims(this.sessionTokenClaims, this.templateContext(authObject));
+	}
+
+	/**
+	 * Add the custom session token claims to `sessionClaims`. Claims set on the mock user
+	 * take precedence over the template.
+	 */
+	private withCustomClaims(authObject: AuthObject): AuthObject {
+		const sessionClaims = authObject.sessionClaims ?? {};
+		const missing = Object.entries(this.customClaims(authObject)).filter(
+			([key]) => !(key in sessionClaims)
+		);
+		if (!missing.length) {
+			return authObject;
+		}
+		return this.createAuthObject(authObject, {
+			sessionClaims: Object.fromEntries(missing) as SignedInAuthObject["sessionClaims"],
+		});
+	}
+
+	/**
+	 * Bring the `pla` and `fea` claims up to date with the subscriptions of the user and its
+	 * active organization. Claims set on the mock user stay when neither is subscribed.
+	 */
+	private withBilling(authObject: AuthObject): AuthObject {
+		const claims = this.billing.claims(authObject.userId, authObject.orgId);
+		if (!claims) {
+			return authObject;
+		}
+		const sessionClaims = authObject.sessionClaims as Record<string, unknown> | null;
+		if (sessionClaims?.pla === claims.pla && sessionClaims?.fea === claims.fea) {
+			return authObject;
+		}
+		return this.createAuthObject(authObject, {
+			sessionClaims: claims as SignedInAuthObject["sessionClaims"],
+		});
+	}
+
+	/**
+	 * Throw a descriptive error when a test builds an auth state Clerk could never produce
+	 */
+	private assertValidAuthState(authObject: AuthObject) {
+		const problems = validateAuthState(authObject);
+		if (problems.length) {
+			throw new Error(`Invalid mock auth state:\n- ${problems.join("\n- ")}`);
+		}
+	}
+
+	/**
+	 * Flatten a persona and the personas it extends into user data
+	 */
+	private resolvePersona(name: string, seen: string[] = []): UserData {
+		const persona = this.personas.get(name);
+		if (!persona) {
+			throw new Error(`Unknown persona "${name}"`);
+		}
+		if (seen.includes(name)) {
+			throw new Error(`Circular persona inheritance: ${[...seen, name].join(" -> ")}`);
+		}
+
+		const { extends: parent, ...userData } = persona;
+		if (!parent) {
+			return userData;
+		}
+		const inherited = this.resolvePersona(parent, [...seen, name]);
+		return {
+			...inherited,
+			...userData,
+			sessionClaims: { ...inherited.sessionClaims, ...userData.sessionClaims },
+		};
+	}
+
+	/**
+	 * Merge user data into an auth object and bind `has()` and `getToken()` to the result,
+	 * unless the caller provided their own implementations. Session claims are deep merged,
+	 * with `null` removing a claim, and for signed in users `sub` and `sid` always follow
+	 * `userId` and `sessionId`. `actor` and the `act` claim are kept identical, whichever
+	 * of the two was given. An explicit `userId: null` signs out like `mockUnauthenticated()`.
+	 */
+	private createAuthObject(base: AuthObject, userData: UserData = {}) {
+		const signedOut = userData.userId === null;
+		// Use type assertion to handle the complex type requirements
+		const authObject = {
+			...(signedOut ? SIGNED_OUT_AUTH_OBJECT : base),
+			...userData,
+		} as AuthObject;
+		const userId = signedOut
+			? null
+			: (userData.userId ?? userData.sessionClaims?.sub ?? base.userId);
+		if (userId !== null) {
+			const sessionId =
+				userData.sessionId ??
+				userData.sessionClaims?.sid ??
+				base.sessionId ??
+				DEFAULT_AUTH_OBJECT.sessionId!;
+			const sessionClaims: Record<string, unknown> = {
+				...mergeMetadata(
+					// A token minted for the previous state no longer matches the merged claims
+					{ ...DEFAULT_SESSION_CLAIMS, ...base.sessionClaims, __raw: "" },
+					userData.sessionClaims
+				),
+				sub: userId,
+				sid: sessionId,
+			};
+			const actor =
+				"actor" in userData
+					? userData.actor
+					: userData.sessionClaims && "act" in userData.sessionClaims
+						? userData.sessionClaims.act
+						: base.actor;
+			if (actor) {
+				sessionClaims.act = actor;
+			} else {
+				delete sessionClaims.act;
+			}
+			Object.assign(authObject, { userId, sessionId, sessionClaims, actor: actor ?? undefined });
+		}
+		if (!userData.has) {
+			authObject.has = createCheckAuthorization(authObject);
+		}
+		if (!userData.getToken && authObject.userId !== null) {
+			// Like Clerk, no new token is minted once the session is no longer active
+			authObject.getToken = async (options?: { template?: string }) => {
+				if (!this.sessions.isActive(authObject.sessionId!)) {
+					return null;
+				}
+				return options?.template
+					? this.signTemplateToken(authObject, options.template)
+					: this.signSessionToken(authObject).__raw;
+			};
+		}
+		return authObject;
+	}
+
+	/**
+	 * The key session tokens are signed with, generated on first use
+	 */
+	private get signingKey() {
+		this._signingKey ??= createSigningKey();
+		return this._signingKey;
+	}
+
+	/**
+	 * Sign a session token for a signed in auth object and return its claims.
+	 * Timestamps left at 0 in the mocked claims are filled in from the current time.
+	 */
+	private signSessionToken(authObject: AuthObject) {
+		const { __raw, ...sessionClaims } = authObject.sessionClaims ?? {};
+		const now = Math.floor(this.clock.now() / 1000);
+		const iat = authObject.sessionClaims?.iat || now;
+		const claims = {
+			...this.customClaims(authObject),
+			iss: this.issuer,
+			sub: authObject.userId,
+			sid: authObject.sessionId,
+			...sessionClaims,
+			iat,
+			// Clerk backdates nbf to tolerate clock skew between services
+			nbf: authObject.sessionClaims?.nbf || iat - 10,
+			exp: authObject.sessionClaims?.exp || iat + SESSION_TOKEN_LIFETIME,
+			...(authObject.orgId && {
+				org_id: authObject.orgId,
+				org_slug: authObject.orgSlug,
+				org_role: authObject.orgRole,
+				org_permissions: authObject.orgPermissions ?? [],
+			}),
+			...(authObject.actor && { act: authObject.actor }),
+			...(authObject.factorVerificationAge && { fva: authObject.factorVerificationAge }),
+			...this.billing.claims(authObject.userId, authObject.orgId),
+		};
+		return { ...claims, __raw: signJwt(claims, this.signingKey) };
+	}
+
+	/**
+	 * Sign a token from a JWT template for a signed in auth object. Unlike session tokens
+	 * these carry only the template's claims, with their own lifetime and `aud`.
+	 */
+	private signTemplateToken(authObject: AuthObject, name: string) {
+		const template = this.jwtTemplates.get(name);
+		if (!template) {
+			throw notFound("JWT template", name);
+		}
+		const iat = Math.floor(this.clock.now() / 1000);
+		const lifetime = template.lifetime
+			? Math.floor(toMilliseconds(template.lifetime) / 1000)
+			: SESSION_TOKEN_LIFETIME;
+		const claims = {
+			...resolveClaims(template.claims, this.templateContext(authObject)),
+			iss: this.issuer,
+			sub: authObject.userId,
+			iat,
+			nbf: iat - 10,
+			exp: iat + lifetime,
+			jti: createId("jti"),
+		};
+		return signJwt(claims, this.signingKey);
+	}
+
+	/**
+	 * Attach a freshly signed session token to the claims of a signed in auth object
+	 */
+	private withSessionToken(authObject: AuthObject): AuthObject {
+		if (authObject.userId === null || authObject.sessionClaims?.__raw) {
+			return authObject;
+		}
+		return {
+			...authObject,
+			sessionClaims: this.signSessionToken(authObject),
+		} as AuthObject;
+	}
+
+	/**
+	 * Build a signed in auth object from the claims of a verified session token
+	 */
+	private authObjectFromClaims(claims: JwtPayload, token: string): AuthObject {
+		const authObject = this.createAuthObject(DEFAULT_AUTH_OBJECT, {
+			userId: claims.sub as string,
+			sessionId: claims.sid as string,
+			orgId: claims.org_id as string | undefined,
+			orgRole: claims.org_role as string | undefined,
+			orgSlug: claims.org_slug as string | undefined,
+			orgPermissions: claims.org_permissions as string[] | undefined,
+			actor: claims.act as ActClaim | undefined,
+			factorVerificationAge: (claims.fva as [number, number] | undefined) ?? null,
+			sessionClaims: { ...claims, __raw: token } as SignedInAuthObject["sessionClaims"],
+			getToken: async (options?: { template?: string }) =>
+				options?.template ? this.signTemplateToken(authObject, options.template) : token,
+		});
+		return authObject;
+	}
+
+	/**
+	 * Resolve a session token to an auth object, either by verifying it against the
+	 * signing key (or the plugin's `jwtKey`) or through the special tokens, the token
+	 * registry and the mock user
+	 */
+	private resolveToken(
+		token: string,
+		context: AuthenticateContext
+	): { auth: AuthObject; error?: undefined } | { auth?: undefined; error: TokenVerificationError } {
+		if (context.jwksError) {
+			return { error: context.jwksError };
+		}
+		if (this.verifyTokens || context.jwtKey) {
+			const { data: claims, errors } = verifyJwt(token, {
+				key: context.jwtKey ? loadJwtKey(context.jwtKey) : this.signingKey,
+				issuer: this.issuer,
+				authorizedParties: context.authorizedParties,
+				clockSkewInMs: this.clockSkewInMs,
+				currentTime: this.clock.now(),
+			});
+			if (errors) {
+				return { error: errors[0] };
+			}
+			return { auth: this.authObjectFromClaims(claims, token) };
+		}
+
+		if (token === "invalid-token") {
+			return {
+				error: new TokenVerificationError({
+					reason: TokenVerificationErrorReason.TokenInvalid,
+					message: "Invalid token",
+				}),
+			};
+		}
+
+		if (token === "expired-token") {
+			return {
+				error: new TokenVerificationError({
+					reason: TokenVerificationErrorReason.TokenExpired,
+					message: "Expired token",
+				}),
+			};
+		}
+
+		const registered = this.tokens.get(token);
+		if (registered) {
+			return this.resolveSession(registered, context);
+		}
+
+		if (this.unknownTokenPolicy === "reject") {
+			return {
+				error: new TokenVerificationError({
+					reason: TokenVerificationErrorReason.TokenInvalid,
+					message: "Unknown token",
+				}),
+			};
+		}
+
+		return this.resolveSession(this.authObject, context);
+	}
+
+	/**
+	 * Finish resolving a mocked identity. A signed out identity fails like an invalid token,
+	 * and a revoked, ended or expired session fails like the expired token the real plugin
+	 * is left with once the session can't be refreshed. Factor verification ages are brought
+	 * up to the current time, and an `azp` claim is checked against the authorized parties
+	 * like a verified token's.
+	 */
+	private resolveSession(
+		authObject: AuthObject,
+		context: AuthenticateContext
+	): { auth: AuthObject; error?: undefined } | { auth?: undefined; error: TokenVerificationError } {
+		if (authObject.userId === null) {
+			// The token resolved to a signed out mock user, which no session token belongs to
+			return {
+				error: new TokenVerificationError({
+					reason: TokenVerificationErrorReason.TokenInvalid,
+					message: "The mock user is signed out",
 				}),
+			};
+		}
+		const authorizedPartyError = checkAuthorizedParty(
+			authObject.sessionClaims?.azp,
+			context.authorizedParties
+		);
+		if (authorizedPartyError) {
+			return { error: authorizedPartyError };
+		}
+		const session = authObject.sessionId ? this.sessions.find(authObject.sessionId) : undefined;
+		if (session && session.status !== "active") {
+			return {
+				error: new TokenVerificationError({
+					reason: TokenVerificationErrorReason.TokenExpired,
+					message: `Session ${session.id} is ${session.status}`,
+				}),
+			};
+		}
+		const factorVerificationAge =
+			authObject.sessionId && this.sessions.factorVerificationAge(authObject.sessionId);
+		const current =
+			factorVerificationAge &&
+			factorVerificationAge.join() !== authObject.factorVerificationAge?.join()
+				? this.createAuthObject(authObject, { factorVerificationAge })
+				: authObject;
+		const synced = this.withOrganizationSync(current, context.organizationSyncTarget, true);
+		return {
+			auth: this.withSessionToken(
+				this.withCustomClaims(this.withBilling(this.withMembership(synced)))
+			),
+		};
+	}
+
+	/**
+	 * Authenticate a request the way Clerk's `authenticateRequest` does: a Bearer token
+	 * in the Authorization header wins, otherwise the `__session` and `__client_uat`
+	 * cookies are evaluated
+	 */
+	private authenticate(request: Request, context: AuthenticateContext): MockRequestState {
+		const authorization = request.headers.get("Authorization");
+		if (authorization?.startsWith("Bearer ")) {
+			return this.authenticateToken(
+				request,
+				authorization.slice("Bearer ".length),
+				"header",
+				context
+			);
+		}
+
+		const cookies = readSessionCookies(request);
+		const url = new URL(request.url);
+		const { instanceType, isSatellite } = context;
+
+		if (instanceType === "development" && url.searchParams.has(QueryParameters.DevBrowser)) {
+			return this.handshakeOrSignedOut(
+				request,
+				context,
+				AuthErrorReason.DevBrowserSync,
+				"",
+				cookies.devBrowserToken
+			);
+		}
+
+		// Satellite apps sync their session with the primary domain on document requests
+		const needsSync = isSatellite && request.headers.get("sec-fetch-dest") === "document";
+		if (instanceType === "production" && needsSync) {
+			return this.handshakeOrSignedOut(
+				request,
+				context,
+				AuthErrorReason.SatelliteCookieNeedsSyncing,
+				""
+			);
+		}
+		if (
+			instanceType === "development" &&
+			needsSync &&
+			!url.searchParams.has(QueryParameters.ClerkSynced)
+		) {
+			const location = new URL(context.signInUrl!);
+			location.searchParams.append(QueryParameters.ClerkRedirectUrl, url.href);
+			return this.handshakeOrSignedOut(
+				request,
+				context,
+				AuthErrorReason.SatelliteCookieNeedsSyncing,
+				"",
+				undefined,
+				location.href
+			);
+		}
+		const syncRedirectUrl = url.searchParams.get(QueryParameters.ClerkRedirectUrl);
+		if (instanceType === "development" && !isSatellite && syncRedirectUrl) {
+			const location = new URL(syncRedirectUrl);
+			if (cookies.devBrowserToken) {
+				location.searchParams.append(QueryParameters.DevBrowser, cookies.devBrowserToken);
+			}
+			location.searchParams.append(QueryParameters.ClerkSynced, "true");
+			return this.handshakeOrSignedOut(
+				request,
+				context,
+				AuthErrorReason.PrimaryRespondsToSyncing,
+				"",
+				undefined,
+				location.href
+			);
+		}
+
+		if (instanceType === "development" && !cookies.devBrowserToken) {
+			return this.handshakeOrSignedOut(request, context, AuthErrorReason.DevBrowserMissing, "");
+		}
+		if (!cookies.clientUat && !cookies.sessionToken) {
+			return this.signedOut(AuthErrorReason.SessionTokenAndUATMissing, "No token provided");
+		}
+		if (isCrossOriginRequest(request)) {
+			return this.signedOut(
+				AuthErrorReason.HeaderMissingCORS,
+				"Cross-origin requests must send the session token in the Authorization header"
+			);
+		}
+		if (!cookies.clientUat && cookies.sessionToken) {
+			return this.handshakeOrSignedOut(
+				request,
+				context,
+				AuthErrorReason.SessionTokenWithoutClientUAT,
+				"",
+				cookies.devBrowserToken
+			);
+		}
+		if (cookies.clientUat && !cookies.sessionToken) {
+			return this.handshakeOrSignedOut(
+				request,
+				context,
+				AuthErrorReason.ClientUATWithoutSessionToken,
+				"",
+				cookies.devBrowserToken
+			);
+		}
+
+		const { data: decoded } = decodeJwt(cookies.sessionToken!);
+		if (typeof decoded?.payload.iat === "number" && decoded.payload.iat < cookies.clientUat) {
+			return this.handshakeOrSignedOut(
+				request,
+				context,
+				AuthErrorReason.SessionTokenIATBeforeClientUAT,
+				"",
+				cookies.devBrowserToken
+			);
+		}
+
+		return this.authenticateToken(request, cookies.sessionToken!, "cookie", context);
+	}
+
+	/**
+	 * Resolve a request scoped identity from the `resolveAuth` callback or the identity
+	 * header, leaving the shared mock user untouched. Returns `undefined` when the
+	 * request doesn't override its identity.
+	 */
+	private async authenticateOverride(
+		request: Request,
+		context: AuthenticateContext,
+		options?: MockPluginOptions
+	): Promise<{ state: MockRequestState; credential: CredentialType } | undefined> {
+		const resolveAuth = options?.resolveAuth ?? this.resolveAuth;
+		let userData = await resolveAuth?.(request);
+		let credential: CredentialType = "resolve-auth";
+
+		const header = request.headers.get(IDENTITY_HEADER);
+		if (userData === undefined && header) {
+			credential = "identity-header";
+			if (header === SIGNED_OUT_IDENTITY) {
+				userData = null;
+			} else if (this.personas.has(header)) {
+				userData = this.resolvePersona(header);
+			} else {
+				let parsed: unknown;
+				try {
+					parsed = JSON.parse(header);
+				} catch {
+					// Reported below like any other value that isn't user data
+				}
+				if (!isPlainObject(parsed)) {
+					const state = this.signedOut(
+						"identity-override-invalid",
+						`Unknown identity "${header}" in the ${IDENTITY_HEADER} header`
+					);
+					return { state, credential };
+				}
+				userData = parsed as UserData;
+			}
+		}
+
+		if (userData === undefined) {
+			return undefined;
+		}
+		if (userData === null || userData.userId === null) {
+			const state = this.signedOut("identity-override", "Signed out by a request scoped identity");
+			return { state, credential };
+		}
+
+		// Unless it names one, a request scoped identity gets a session of its own, leaving the
+		// mock user's session alone
+		const authObject = this.createAuthObject(
+			{ ...DEFAULT_AUTH_OBJECT, sessionId: createId("sess") } as AuthObject,
+			userData
+		);
+		const problems = validateAuthState(authObject);
+		if (problems.length) {
+			return {
+				state: this.signedOut("identity-override-invalid", problems.join("; ")),
+				credential,
+			};
+		}
+		// Request scoped identities leave memberships alone, so concurrent requests can carry
+		// different roles for the same user and organization
+		this.linkIdentity(authObject, "skip");
+		const synced = this.withOrganizationSync(authObject, context.organizationSyncTarget, false);
+		const declared = synced.orgId === authObject.orgId ? userData : undefined;
+		const auth = this.withSessionToken(
+			this.withCustomClaims(this.withBilling(this.withMembership(synced, declared)))
+		);
+		return {
+			state: {
+				status: AuthStatus.SignedIn,
+				auth,
+				token: auth.sessionClaims?.__raw ?? "",
 				headers: new Headers(),
-				status: this.authObject.userId !== null ? AuthStatus.SignedIn : AuthStatus.SignedOut,
+			},
+			credential,
+		};
+	}
+
+	private authenticateToken(
+		request: Request,
+		token: string,
+		tokenCarrier: "header" | "cookie",
+		context: AuthenticateContext
+	): MockRequestState {
+		const { auth, error } = this.resolveToken(token, context);
+		if (auth) {
+			return { status: AuthStatus.SignedIn, auth, token, headers: new Headers() };
+		}
+
+		error.tokenCarrier = tokenCarrier;
+		const reasonToHandshake = {
+			[TokenVerificationErrorReason.TokenExpired]: AuthErrorReason.SessionTokenExpired,
+			[TokenVerificationErrorReason.TokenNotActiveYet]: AuthErrorReason.SessionTokenNBF,
+			[TokenVerificationErrorReason.TokenIatInTheFuture]:
+				AuthErrorReason.SessionTokenIatInTheFuture,
+		}[error.reason];
+		if (!reasonToHandshake) {
+			return this.signedOut(error.reason, error.getFullMessage());
+		}
+
+		// The mock never refreshes tokens, so report why a refresh was not attempted
+		const refreshError =
+			request.method !== "GET"
+				? RefreshTokenErrorReason.NonEligibleNonGet
+				: RefreshTokenErrorReason.NonEligibleNoCookie;
+		const reason =
+			reasonToHandshake === AuthErrorReason.SessionTokenExpired
+				? `${reasonToHandshake}-refresh-${refreshError}`
+				: reasonToHandshake;
+		return this.handshakeOrSignedOut(request, context, reason, error.getFullMessage());
+	}
+
+	/**
+	 * Resolve the plugin options for a request and fail with the configuration errors Clerk's
+	 * `authenticateRequest` throws. A publishable key decides the instance type and Frontend
+	 * API, otherwise the mock's own settings apply.
+	 */
+	private createAuthenticateContext(
+		request: Request,
+		options: MockPluginOptions = {}
+	): AuthenticateContext {
+		const publishableKey =
+			options.publishableKey ?? (this.requireKeys ? process.env.CLERK_PUBLISHABLE_KEY : undefined);
+		const secretKey =
+			options.secretKey ?? (this.requireKeys ? process.env.CLERK_SECRET_KEY : undefined);
+		const isSatellite = !!options.isSatellite;
+
+		const { instanceType, frontendApi } =
+			publishableKey || this.requireKeys
+				? parsePublishableKey(publishableKey, options)
+				: { instanceType: this.instanceType, frontendApi: this.frontendApi };
+		if (this.requireKeys && !secretKey) {
+			throw new Error(
+				"Missing Clerk Secret Key. Go to https://dashboard.clerk.com and get your key for your instance."
+			);
+		}
+		if (isSatellite) {
+			const isDevelopment = secretKey
+				? secretKey.startsWith("sk_test_")
+				: instanceType === "development";
+			if (!options.signInUrl && isDevelopment) {
+				throw new Error(
+					"Missing signInUrl. Pass a signInUrl for dev instances if an app is satellite"
+				);
+			}
+			const origin = request.headers.get("origin");
+			if (options.signInUrl && origin) {
+				let signInUrl: URL;
+				try {
+					signInUrl = new URL(options.signInUrl);
+				} catch {
+					throw new Error("The signInUrl needs to have a absolute url format.");
+				}
+				if (signInUrl.origin === origin) {
+					throw new Error(
+						"The signInUrl needs to be on a different origin than your satellite application."
+					);
+				}
+			}
+			if (!options.proxyUrl && !options.domain) {
+				throw new Error(
+					"Missing domain and proxyUrl. A satellite application needs to specify a domain or a proxyUrl"
+				);
+			}
+		}
+
+		return {
+			instanceType,
+			frontendApi,
+			publishableKey,
+			authorizedParties: options.authorizedParties,
+			jwtKey: options.jwtKey,
+			isSatellite,
+			domain: options.domain,
+			proxyUrl: options.proxyUrl,
+			signInUrl: options.signInUrl,
+			signUpUrl: options.signUpUrl,
+			afterSignInUrl: options.afterSignInUrl,
+			afterSignUpUrl: options.afterSignUpUrl,
+			organizationSyncTarget: getOrganizationSyncTarget(
+				new URL(request.url),
+				options.organizationSyncOptions
+			),
+		};
+	}
+
+	/**
+	 * Authenticate a request through a request scoped identity or, without one, its
+	 * session token, and record the outcome. The auth object of a signed in request
+	 * records the `has()` checks evaluated against it.
+	 */
+	private async authenticateWithContext(request: Request, options?: MockPluginOptions) {
+		const context = this.createAuthenticateContext(request, options);
+		const acceptsToken = options?.acceptsToken ?? "session_token";
+		// Request scoped identities are sessions, so they only apply where sessions are accepted
+		const override = isTokenTypeAccepted("session_token", acceptsToken)
+			? await this.authenticateOverride(request, context, options)
+			: undefined;
+
+		const { sessionToken } = readSessionCookies(request);
+		const authorization = request.headers.get("Authorization");
+		const credential: AuthCall["credential"] = override
+			? { type: override.credential }
+			: authorization?.startsWith("Bearer ")
+				? { type: "bearer", token: authorization.slice("Bearer ".length) }
+				: sessionToken
+					? { type: "cookie", token: sessionToken }
+					: { type: "none" };
+
+		// Without a `jwtKey`, verifying a session token first loads the JWKS
+		const machineTokenType = credential.token ? getMachineTokenType(credential.token) : undefined;
+		if (!override && credential.token && !machineTokenType && !context.jwtKey) {
+			const error = await this.faults.apply("jwks");
+			if (error) {
+				context.jwksError = new TokenVerificationError({
+					action: TokenVerificationErrorAction.ContactSupport,
+					message: `Error loading Clerk JWKS from ${JWKS_URL} with code=${error.status}`,
+					reason: TokenVerificationErrorReason.RemoteJWKFailedToLoad,
+				});
+			}
+		}
+		const state =
+			override?.state ??
+			this.authenticateMachineToken(credential, acceptsToken) ??
+			this.authenticate(request, context);
+		const auth = state.status === AuthStatus.SignedIn ? state.auth : undefined;
+		const call: AuthCall = {
+			method: request.method,
+			path: new URL(request.url).pathname,
+			credential,
+			status: state.status,
+			reason: state.status === AuthStatus.SignedIn ? null : state.reason,
+			userId: auth?.userId ?? null,
+			sessionId: auth?.sessionId ?? null,
+			orgId: auth?.orgId,
+			checks: [],
+			timestamp: this.clock.now(),
+		};
+		this.recordedCalls.push(call);
+
+		if (state.status === AuthStatus.SignedIn) {
+			return { context, state: { ...state, auth: this.recordChecks(state.auth, call) }, call };
+		}
+		return { context, state, call };
+	}
+
+	/**
+	 * Authenticate requests presenting a machine token, and sign out those a route doesn't
+	 * accept the token type of. `undefined` leaves session tokens to `authenticate()`.
+	 */
+	private authenticateMachineToken(
+		credential: AuthCall["credential"],
+		acceptsToken: AcceptsToken
+	): MockRequestState | undefined {
+		// A machine type a route accepts exclusively shapes its signed out auth object
+		const acceptedType =
+			typeof acceptsToken === "string" && acceptsToken !== "any" ? acceptsToken : null;
+		const token = credential.type === "bearer" ? credential.token : undefined;
+		const tokenType = token && getMachineTokenType(token);
+
+		if (!token || !tokenType) {
+			if (isTokenTypeAccepted("session_token", acceptsToken)) {
+				return undefined;
+			}
+			// Machine tokens are only read from the Authorization header
+			return acceptedType && !token
+				? this.signedOut("No token in header", "", acceptedType)
+				: this.signedOut(AuthErrorReason.TokenTypeMismatch, "", acceptedType);
+		}
+		if (!isTokenTypeAccepted(tokenType, acceptsToken)) {
+			return this.signedOut(AuthErrorReason.TokenTypeMismatch, "", acceptedType);
+		}
+
+		const result = this.machineTokens.verify(token);
+		if (result.error !== undefined) {
+			return this.signedOut(MACHINE_TOKEN_INVALID, result.error, tokenType);
+		}
+		return {
+			status: AuthStatus.SignedIn,
+			// Machine auth objects stand in for the session shaped `auth`
+			auth: authenticatedMachineObject(result.data, token) as unknown as AuthObject,
+			token,
+			headers: new Headers(),
+			tokenType,
+		};
+	}
+
+	/**
+	 * Record every `has()` check evaluated against an auth object in the request's call
+	 */
+	private recordChecks(authObject: AuthObject, call: AuthCall): AuthObject {
+		const has = authObject.has;
+		return {
+			...authObject,
+			has: (params: Parameters<typeof has>[0]) => {
+				const result = has(params);
+				call.checks.push({ params: params as CheckAuthorizationParams, result });
+				return result;
+			},
+		} as AuthObject;
+	}
+
+	/**
+	 * The signed out auth object of a request, whose `debug()` reports why it is signed out
+	 */
+	private signedOutAuthObject(
+		state: Exclude<MockRequestState, { status: AuthStatus.SignedIn }>,
+		context: AuthenticateContext,
+		call: AuthCall
+	) {
+		const debug = () => ({
+			status: state.status,
+			reason: state.reason,
+			message: state.message,
+			isSatellite: context.isSatellite,
+			signInUrl: context.signInUrl ?? "",
+			signUpUrl: context.signUpUrl ?? "",
+		});
+		const authObject =
+			state.tokenType === undefined || state.tokenType === "session_token"
+				? this.createAuthObject(SIGNED_OUT_AUTH_OBJECT, { debug })
+				: (unauthenticatedMachineObject(state.tokenType, debug) as unknown as AuthObject);
+		return this.recordChecks(authObject, call);
+	}
+
+	/**
+	 * Authenticate a request the way `clerkClient.authenticateRequest` does, sharing the
+	 * plugin's resolution but leaving the response to the caller
+	 */
+	private async authenticateRequest(
+		request: Request,
+		options?: MockPluginOptions
+	): Promise<RequestState> {
+		const { context, state, call } = await this.authenticateWithContext(request, options);
+		const isSignedIn = state.status === AuthStatus.SignedIn;
+		const auth =
+			state.status === AuthStatus.SignedIn
+				? state.auth
+				: state.status === AuthStatus.SignedOut
+					? this.signedOutAuthObject(state, context, call)
+					: null;
+		return {
+			status: state.status,
+			reason: state.status === AuthStatus.SignedIn ? null : state.reason,
+			message: state.status === AuthStatus.SignedIn ? null : state.message,
+			proxyUrl: context.proxyUrl ?? "",
+			publishableKey: context.publishableKey ?? "",
+			isSatellite: context.isSatellite,
+			domain: context.domain ?? "",
+			signInUrl: context.signInUrl ?? "",
+			signUpUrl: context.signUpUrl ?? "",
+			afterSignInUrl: context.afterSignInUrl ?? "",
+			afterSignUpUrl: context.afterSignUpUrl ?? "",
+			isSignedIn,
+			headers: state.headers,
+			token: state.status === AuthStatus.SignedIn ? state.token : null,
+			tokenType: state.tokenType === undefined ? "session_token" : state.tokenType,
+			toAuth: () => auth,
+		};
+	}
+
+	private signedOut(
+		reason: string,
+		message: string,
+		tokenType?: TokenType | null
+	): MockRequestState {
+		return {
+			status: AuthStatus.SignedOut,
+			reason,
+			message,
+			tokenType,
+			headers: new Headers({
+				[AuthHeaders.AuthStatus]: AuthStatus.SignedOut,
+				[AuthHeaders.AuthReason]: reason,
+				...(message && { [AuthHeaders.AuthMessage]: message }),
 			}),
 		};
 	}
 
+	/**
+	 * Document requests are redirected to the Frontend API handshake, or the given location,
+	 * everything else is signed out
+	 */
+	private handshakeOrSignedOut(
+		request: Request,
+		context: AuthenticateContext,
+		reason: string,
+		message: string,
+		devBrowserToken?: string,
+		location?: string
+	): MockRequestState {
+		if (!isRequestEligibleForHandshake(request)) {
+			return this.signedOut(reason, message);
+		}
+		return {
+			status: AuthStatus.Handshake,
+			reason,
+			message,
+			headers: new Headers({
+				[AuthHeaders.AuthStatus]: AuthStatus.Handshake,
+				[AuthHeaders.AuthReason]: reason,
+				...(message && { [AuthHeaders.AuthMessage]: message }),
+				Location:
+					location ??
+					buildHandshakeUrl(request, {
+						frontendApi: context.frontendApi,
+						reason,
+						instanceType: context.instanceType,
+						devBrowserToken,
+					}),
+				"Cache-Control": "no-store",
+			}),
+		};
+	}
+
+	/**
+	 * Create a mock Clerk client. `authenticateRequest` defaults to the plugin's options.
+	 */
+	private createClerkClient(pluginOptions?: MockPluginOptions) {
+		return {
+			users: this.faults.wrap("users", createUserApi(this.users)),
+			organizations: this.faults.wrap(
+				"organizations",
+				createOrganizationApi(this.organizations, this.users)
+			),
+			sessions: this.faults.wrap("sessions", createSessionApi(this.sessions)),
+			authenticateRequest: (request: Request, options?: MockPluginOptions) =>
+				this.authenticateRequest(request, { ...pluginOptions, ...options }),
+		};
+	}
+
 	/**
 	 * Create the Elysia plugin that mocks Clerk authentication
 	 */
-	plugin = (options?: ElysiaClerkOptions) => {
+	plugin = (options?: MockPluginOptions) => {
 		return new Elysia({
 			name: "elysia-clerk",
-			seed: options,
+			seed: { instance: this.instanceId, options },
 		})
-			.decorate("clerk", this.mockClerkClient)
-			.resolve(async ({ request, error }) => {
-				const authorization = request.headers.get("Authorization");
-				if (!authorization || !authorization.startsWith("Bearer ")) {
-					return error(401, "Unauthorized - No token provided");
+			.decorate("clerk", this.createClerkClient(options))
+			.resolve(async ({ request, error, set }) => {
+				const { context, state, call } = await this.authenticateWithContext(request, options);
+				state.headers.forEach((value, key) => {
+					set.headers[key] = value;
+				});
+
+				if (state.status === AuthStatus.SignedIn) {
+					return {
+						auth: state.auth,
+					};
 				}
 
-				if (authorization === "Bearer invalid-token") {
-					return error(401, "Unauthorized - Invalid token");
+				if (state.status === AuthStatus.Handshake) {
+					return error(307, "");
 				}
 
-				if (authorization === "Bearer expired-token") {
-					return error(401, "Unauthorized - Expired token");
+				if (this.requireAuth) {
+					return error(401, `Unauthorized - ${state.message || state.reason}`);
 				}
 
 				return {
-					auth: this.authObject,
+					auth: this.signedOutAuthObject(state, context, call),
 				};
 			})
 			.as("plugin");
 	};
+
+	/**
+	 * Module factory for `mock.module("elysia-clerk", clerkMock.mockModule)`, connecting
+	 * this instance to the `elysia-clerk` imports of a test file
+	 */
+	mockModule = () => ({
+		clerkPlugin: this.plugin,
+	});
 }
 
+/**
+ * Create an isolated mock instance. Its plugin, tokens and stores are independent of
+ * every other instance, including the shared `clerkMock`.
+ */
+const createClerkMock = (initialUser?: UserData, options?: ElysiaClerkMockOptions) =>
+	new ElysiaClerkMock(initialUser, options);
+
 const clerkMock = new ElysiaClerkMock();
 
-export { ElysiaClerkMock, clerkMock };
+export {
+	ClerkAPIResponseError,
+	ElysiaClerkMock,
+	clerkMatchers,
+	clerkMock,
+	createClerkMock,
+	isReverificationHint,
+	reverificationError,
+	reverificationErrorResponse,
+};
+export type {
+	AcceptsToken,
+	ActClaim,
+	AuthCall,
+	AuthorizationCheck,
+	BackendApiOptions,
+	BillingPlans,
+	BuiltWebhook,
+	CredentialType,
+	Duration,
+	ElysiaClerkMockOptions,
+	FactorVerification,
+	FaultOptions,
+	MachineAuthObject,
+	MachineTokenOptions,
+	MachineTokenType,
+	ImpersonationOptions,
+	MockPluginOptions,
+	Persona,
+	OrganizationFixture,
+	ResolveAuth,
+	RequestState,
+	ReverificationConfig,
+	RolePermissions,
+	Subscription,
+	SubscriptionOptions,
+	TokenType,
+	UnknownTokenPolicy,
+	UserData,
+	UserFixture,
+	WebhookSignatureOptions,
+};
@@ -0,0 +1,106 @@
+/** @format */
+
+import { randomBytes } from "node:crypto";
+
+/**
+ * A single error entry of a Backend API error response
+ */
+type ClerkAPIError = {
+	code: string;
+	message: string;
+	longMessage?: string;
+	meta?: Record<string, unknown>;
+};
+
+/**
+ * Same shape as the `ClerkAPIResponseError` the real client throws, so
+ * `isClerkAPIResponseError()` and `error.status` checks keep working against the mock
+ */
+class ClerkAPIResponseError extends Error {
+	clerkError = true as const;
+	status: number;
+	errors: ClerkAPIError[];
+	/**
+	 * Seconds from the `Retry-After` header of rate limited and unavailable responses
+	 */
+	retryAfter?: number;
+
+	constructor(
+		message: string,
+		{ status, errors, retryAfter }: { status: number; errors: ClerkAPIError[]; retryAfter?: number }
+	) {
+		super(message);
+		this.name = "ClerkAPIResponseError";
+		this.status = status;
+		this.errors = errors;
+		this.retryAfter = retryAfter;
+	}
+}
+
+/**
+ * Pagination parameters accepted by the Backend API list endpoints
+ */
+type PaginationParams = {
+	limit?: number;
+	offset?: number;
+};
+
+// Same defaults the Backend API applies to list endpoints
+const DEFAULT_PAGE_LIMIT = 10;
+
+const createAPIError = (status: number, code: string, message: string, longMessage?: string) =>
+	new ClerkAPIResponseError(message, {
+		status,
+		errors: [{ code, message, longMessage }],
+	});
+
+const notFound = (resource: string, id: string) =>
+	createAPIError(404, "resource_not_found", "not found", `${resource} ${id} not found`);
+
+/**
+ * Generate an id with Clerk's resource prefix, e.g. `user_2b1f...`
+ */
+const createId = (prefix: string) => `${prefix}_${randomBytes(12).toString("hex")}`;
+
+/**
+ * Slice a list the way the Backend API paginates, returning the total before slicing
+ */
+const paginate = <T>(items: T[], { limit = DEFAULT_PAGE_LIMIT, offset = 0 }: PaginationParams) => ({
+	data: items.slice(offset, offset + limit),
+	totalCount: items.length,
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Merge metadata like the Backend API's PATCH endpoints: nested objects are merged
+ * and keys set to `null` are removed
+ */
+const mergeMetadata = (
+	target: Record<string, unknown>,
+	patch: Record<string, unknown> | undefined
+): Record<string, unknown> => {
+	const merged = { ...target };
+	for (const [key, value] of Object.entries(patch ?? {})) {
+		if (value === null) {
+			delete merged[key];
+		} else if (isPlainObject(value) && isPlainObject(merged[key])) {
+			merged[key] = mergeMetadata(merged[key], value);
+		} else {
+			merged[key] = value;
+		}
+	}
+	return merged;
+};
+
+export {
+	ClerkAPIResponseError,
+	createAPIError,
+	createId,
+	isPlainObject,
+	mergeMetadata,
+	notFound,
+	paginate,
+};
+export type { ClerkAPIError, PaginationParams };
@@ -0,0 +1,224 @@
+/** @format */
+
+type ReverificationLevel = "first_factor" | "second_factor" | "multi_factor";
+
+type ReverificationConfig =
+	| "strict_mfa"
+	| "strict"
+	| "moderate"
+	| "lax"
+	| { level: ReverificationLevel; afterMinutes: number };
+
+/**
+ * Parameters accepted by `auth.has()`, mirroring the shapes Clerk's backend accepts
+ */
+type CheckAuthorizationParams = {
+	role?: string;
+	permission?: string;
+	feature?: string;
+	plan?: string;
+	reverification?: ReverificationConfig;
+};
+
+type CheckAuthorization = (params: CheckAuthorizationParams) => boolean;
+
+/**
+ * The parts of an auth object that `has()` is evaluated against
+ */
+type AuthorizationState = {
+	userId: string | null;
+	orgId: string | null | undefined;
+	orgRole: string | null | undefined;
+	orgPermissions: string[] | null | undefined;
+	factorVerificationAge: [number, number] | null;
+	sessionClaims: Record<string, unknown> | null;
+};
+
+const REVERIFICATION_PRESETS = {
+	strict_mfa: { afterMinutes: 10, level: "multi_factor" },
+	strict: { afterMinutes: 10, level: "second_factor" },
+	moderate: { afterMinutes: 60, level: "second_factor" },
+	lax: { afterMinutes: 1440, level: "second_factor" },
+} as const;
+
+const REVERIFICATION_LEVELS = new Set(["first_factor", "second_factor", "multi_factor"]);
+
+// Reason Clerk's frontend SDK looks for to start the reverification flow
+const REVERIFICATION_REASON = "reverification-error";
+
+/**
+ * Body of the 403 response telling Clerk's frontend SDK to reverify the user
+ */
+type ReverificationError = {
+	clerk_error: {
+		type: "forbidden";
+		reason: typeof REVERIFICATION_REASON;
+		metadata: { reverification?: ReverificationConfig };
+	};
+};
+
+/**
+ * Split a `fea`/`pla` claim ("o:reports,u:export") into organization and user scoped entries
+ */
+const splitByScope = (claim: string) => {
+	const entries = claim
+		.split(",")
+		.map((entry) => entry.trim())
+		.filter(Boolean);
+	const scoped = (scope: "o" | "u") =>
+		entries
+			.filter((entry) => entry.includes(":") && entry.split(":")[0].includes(scope))
+			.map((entry) => entry.split(":")[1]);
+	return { org: scoped("o"), user: scoped("u") };
+};
+
+const checkForFeatureOrPlan = (claim: string, featureOrPlan: string) => {
+	const { org, user } = splitByScope(claim);
+	const [scope, id] = featureOrPlan.includes(":")
+		? featureOrPlan.split(":")
+		: [null, featureOrPlan];
+	if (scope === "org") {
+		return org.includes(id);
+	}
+	if (scope === "user") {
+		return user.includes(id);
+	}
+	return [...org, ...user].includes(id);
+};
+
+const checkBillingAuthorization = (
+	params: CheckAuthorizationParams,
+	{ sessionClaims }: AuthorizationState
+) => {
+	if (params.feature && typeof sessionClaims?.fea === "string") {
+		return checkForFeatureOrPlan(sessionClaims.fea, params.feature);
+	}
+	if (params.plan && typeof sessionClaims?.pla === "string") {
+		return checkForFeatureOrPlan(sessionClaims.pla, params.plan);
+	}
+	return null;
+};
+
+const checkOrgAuthorization = (
+	params: CheckAuthorizationParams,
+	{ orgId, orgRole, orgPermissions }: AuthorizationState
+) => {
+	if (!params.role && !params.permission) {
+		return null;
+	}
+	// Clerk always puts the permission list in the claims of an active organization,
+	// so a mocked membership without explicit permissions is treated as having none
+	if (!orgId || !orgRole) {
+		return null;
+	}
+	if (params.permission) {
+		return (orgPermissions ?? []).includes(params.permission);
+	}
+	if (params.role) {
+		return orgRole === params.role;
+	}
+	return null;
+};
+
+const resolveReverificationConfig = (config: ReverificationConfig) => {
+	if (typeof config === "string") {
+		return REVERIFICATION_PRESETS[config] ?? null;
+	}
+	if (
+		typeof config === "object" &&
+		REVERIFICATION_LEVELS.has(config.level) &&
+		typeof config.afterMinutes === "number" &&
+		config.afterMinutes > 0
+	) {
+		return config;
+	}
+	return null;
+};
+
+const checkReverificationAuthorization = (
+	params: CheckAuthorizationParams,
+	{ factorVerificationAge }: AuthorizationState
+) => {
+	if (!params.reverification || !factorVerificationAge) {
+		return null;
+	}
+	const config = resolveReverificationConfig(params.reverification);
+	if (!config) {
+		return null;
+	}
+
+	const [firstFactorAge, secondFactorAge] = factorVerificationAge;
+	const isValidFirstFactor = firstFactorAge !== -1 ? config.afterMinutes > firstFactorAge : null;
+	const isValidSecondFactor = secondFactorAge !== -1 ? config.afterMinutes > secondFactorAge : null;
+
+	switch (config.level) {
+		case "first_factor":
+			return isValidFirstFactor;
+		case "second_factor":
+			return secondFactorAge !== -1 ? isValidSecondFactor : isValidFirstFactor;
+		case "multi_factor":
+			return secondFactorAge === -1
+				? isValidFirstFactor
+				: isValidFirstFactor && isValidSecondFactor;
+	}
+};
+
+/**
+ * Build a `has()` function that evaluates roles, permissions, features, plans and
+ * reverification against the given auth state, following Clerk's own rules
+ */
+const createCheckAuthorization = (state: AuthorizationState): CheckAuthorization => {
+	return (params) => {
+		if (!state.userId) {
+			return false;
+		}
+
+		const entitlement =
+			checkBillingAuthorization(params, state) || checkOrgAuthorization(params, state);
+		const reverification = checkReverificationAuthorization(params, state);
+
+		if ([entitlement, reverification].some((result) => result === null)) {
+			return [entitlement, reverification].some((result) => result === true);
+		}
+		return [entitlement, reverification].every((result) => result === true);
+	};
+};
+
+/**
+ * Same as `reverificationError` from `@clerk/shared/authorization-errors`: the hint a route
+ * returns when `has({ reverification })` fails, naming the missing reverification
+ */
+const reverificationError = (missingConfig?: ReverificationConfig): ReverificationError => ({
+	clerk_error: {
+		type: "forbidden",
+		reason: REVERIFICATION_REASON,
+		metadata: { reverification: missingConfig },
+	},
+});
+
+/**
+ * The reverification hint as the 403 response Clerk's frontend SDK expects
+ */
+const reverificationErrorResponse = (missingConfig?: ReverificationConfig) =>
+	new Response(JSON.stringify(reverificationError(missingConfig)), { status: 403 });
+
+const isReverificationHint = (result: unknown): result is ReverificationError =>
+	typeof result === "object" &&
+	result !== null &&
+	(result as Partial<ReverificationError>).clerk_error?.type === "forbidden" &&
+	(result as Partial<ReverificationError>).clerk_error?.reason === REVERIFICATION_REASON;
+
+export {
+	createCheckAuthorization,
+	isReverificationHint,
+	reverificationError,
+	reverificationErrorResponse,
+};
+export type {
+	AuthorizationState,
+	CheckAuthorization,
+	CheckAuthorizationParams,
+	ReverificationConfig,
+	ReverificationError,
+	ReverificationLevel,
+};
@@ -0,0 +1,85 @@
+/** @format */
+
+/**
+ * Features included in each plan, by plan slug
+ */
+type BillingPlans = Record<string, string[]>;
+
+type SubscriptionOptions = {
+	/**
+	 * Features granted on top of the plan's, e.g. an add-on
+	 */
+	features?: string[];
+};
+
+type Subscription = {
+	plan: string;
+	features: string[];
+};
+
+/**
+ * Plans and features the mocked users and organizations are subscribed to. Subscriptions
+ * are keyed by their payer, a user or organization id.
+ */
+class BillingStore {
+	private subscriptions = new Map<string, Subscription>();
+	private plans: BillingPlans;
+
+	constructor(plans: BillingPlans = {}) {
+		this.plans = plans;
+	}
+
+	seed(subscriptions: Record<string, string>) {
+		for (const [payerId, plan] of Object.entries(subscriptions)) {
+			this.subscribe(payerId, plan);
+		}
+	}
+
+	/**
+	 * Subscribe a payer to a plan, replacing its current subscription
+	 */
+	subscribe(payerId: string, plan: string, { features = [] }: SubscriptionOptions = {}) {
+		if (!payerId.startsWith("user_") && !payerId.startsWith("org_")) {
+			throw new Error(`Invalid payer "${payerId}", expected a user or organization id`);
+		}
+		const subscription = {
+			plan,
+			features: [...new Set([...(this.plans[plan] ?? []), ...features])],
+		};
+		this.subscriptions.set(payerId, subscription);
+		return subscription;
+	}
+
+	cancel(payerId: string) {
+		return this.subscriptions.delete(payerId);
+	}
+
+	find(payerId: string | null | undefined) {
+		return payerId ? this.subscriptions.get(payerId) : undefined;
+	}
+
+	/**
+	 * The `pla` and `fea` claims of a session for the user and its active organization,
+	 * `undefined` when neither is subscribed
+	 */
+	claims(userId: string | null, orgId: string | null | undefined) {
+		const user = this.find(userId);
+		const org = this.find(orgId);
+		if (!user && !org) {
+			return undefined;
+		}
+		const scoped = (scope: "u" | "o", entries: string[] = []) =>
+			entries.map((entry) => `${scope}:${entry}`);
+		return {
+			pla: [...scoped("u", user && [user.plan]), ...scoped("o", org && [org.plan])].join(","),
+			fea: [...scoped("u", user?.features), ...scoped("o", org?.features)].join(","),
+		};
+	}
+
+	clear() {
+		this.subscriptions.clear();
+	}
+}
+
+export { BillingStore };
+export type { BillingPlans, Subscription, SubscriptionOptions };
@@ -0,0 +1,68 @@
+/** @format */
+
+const DURATION_UNITS: Record<string, number> = {
+	ms: 1,
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * A duration in milliseconds, or a string such as "61s", "5m", "2h" or "7d"
+ */
+type Duration = number | string;
+
+const toMilliseconds = (duration: Duration) => {
+	if (typeof duration === "number") {
+		return duration;
+	}
+	const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/.exec(duration.trim());
+	if (!match) {
+		throw new Error(
+			`Invalid duration "${duration}", expected e.g. "500ms", "61s", "5m", "2h" or "7d"`
+		);
+	}
+	return Number(match[1]) * DURATION_UNITS[match[2]];
+};
+
+/**
+ * Time source for session tokens and sessions. It follows the system clock, shifted by
+ * however far a test moved it.
+ */
+class MockClock {
+	private offset = 0;
+
+	/**
+	 * Current mock time in milliseconds
+	 */
+	now() {
+		return Date.now() + this.offset;
+	}
+
+	/**
+	 * Move the clock forward, e.g. `clock.advance("61s")` to let a session token expire
+	 */
+	advance(duration: Duration) {
+		this.offset += toMilliseconds(duration);
+		return this.now();
+	}
+
+	/**
+	 * Jump to a point in time, from where the clock keeps running
+	 */
+	set(time: Date | number) {
+		this.offset = new Date(time).getTime() - Date.now();
+		return this.now();
+	}
+
+	/**
+	 * Go back to the system time
+	 */
+	reset() {
+		this.offset = 0;
+	}
+}
+
+export { MockClock, toMilliseconds };
+export type { Duration };
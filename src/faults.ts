@@ -0,0 +1,144 @@
+/** @format */
+
+import { ClerkAPIResponseError } from "./api";
+import { toMilliseconds, type Duration } from "./clock";
+
+/**
+ * A failure or delay injected into calls to the mocked Backend API or JWKS endpoint
+ */
+type FaultOptions = {
+	/**
+	 * Status the call fails with, 429 or a 5xx. Without one the call only gets delayed.
+	 */
+	status?: number;
+	/**
+	 * Seconds reported in the `Retry-After` header, defaults to 1 for 429 responses
+	 */
+	retryAfter?: number;
+	/**
+	 * Delay before the call responds, e.g. `"250ms"`
+	 */
+	latency?: Duration;
+	/**
+	 * Only affect the next N calls, every call by default
+	 */
+	times?: number;
+	/**
+	 * Chance between 0 and 1 that a call is affected, defaults to 1
+	 */
+	probability?: number;
+};
+
+type Fault = {
+	target: string;
+	options: FaultOptions;
+	remaining: number;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Targets are `"jwks"`, a Backend API method like `"users.getUser"`, every method of a
+ * namespace like `"users.*"`, or `"*"` for all of them
+ */
+const matchesTarget = (target: string, endpoint: string) =>
+	target === endpoint ||
+	(target === "*" && endpoint !== "jwks") ||
+	(target.endsWith(".*") && endpoint.startsWith(target.slice(0, -1)));
+
+/**
+ * The error the Backend API responds with for a faulted call
+ */
+const createFaultError = ({ status, retryAfter }: FaultOptions & { status: number }) =>
+	status === 429
+		? new ClerkAPIResponseError("Too Many Requests", {
+				status,
+				retryAfter: retryAfter ?? 1,
+				errors: [
+					{
+						code: "too_many_requests",
+						message: "Too Many Requests",
+						longMessage: "Too many requests, please retry later",
+					},
+				],
+			})
+		: new ClerkAPIResponseError("Oops, an unexpected error occurred", {
+				status,
+				retryAfter,
+				errors: [
+					{
+						code: "internal_clerk_error",
+						message: "Oops, an unexpected error occurred",
+						longMessage: "There was an internal error on our servers. We've been notified.",
+					},
+				],
+			});
+
+/**
+ * Failures and latency configured for the mock's Backend API methods and JWKS endpoint
+ */
+class FaultInjector {
+	private faults: Fault[] = [];
+
+	add(target: string, options: FaultOptions) {
+		const { status, times, probability } = options;
+		if (status !== undefined && status !== 429 && (status < 500 || status > 599)) {
+			throw new Error(`Invalid fault status ${status}, expected 429 or a 5xx status`);
+		}
+		if (times !== undefined && (!Number.isInteger(times) || times < 1)) {
+			throw new Error(`Invalid fault times ${times}, expected a positive integer`);
+		}
+		if (probability !== undefined && (probability < 0 || probability > 1)) {
+			throw new Error(`Invalid fault probability ${probability}, expected a number from 0 to 1`);
+		}
+		if (options.latency !== undefined) {
+			toMilliseconds(options.latency);
+		}
+		this.faults.push({ target, options, remaining: times ?? Infinity });
+	}
+
+	/**
+	 * Delay a call by the first matching fault and return the error it fails with, if any.
+	 * Faults apply in the order they were added and count down their `times` on every
+	 * call they affect.
+	 */
+	async apply(endpoint: string) {
+		const fault = this.faults.find(
+			({ target, remaining }) => remaining > 0 && matchesTarget(target, endpoint)
+		);
+		if (!fault || Math.random() >= (fault.options.probability ?? 1)) {
+			return undefined;
+		}
+		fault.remaining -= 1;
+
+		const { latency, status } = fault.options;
+		if (latency !== undefined) {
+			await sleep(toMilliseconds(latency));
+		}
+		return status === undefined ? undefined : createFaultError({ ...fault.options, status });
+	}
+
+	/**
+	 * Route every method of a Backend API namespace through the configured faults
+	 */
+	wrap<T extends Record<string, (...args: any[]) => Promise<unknown>>>(namespace: string, api: T) {
+		const wrapped = Object.entries(api).map(([name, method]) => [
+			name,
+			async (...args: unknown[]) => {
+				const error = await this.apply(`${namespace}.${name}`);
+				if (error) {
+					throw error;
+				}
+				return method(...args);
+			},
+		]);
+		return Object.fromEntries(wrapped) as T;
+	}
+
+	clear() {
+		this.faults = [];
+	}
+}
+
+export { FaultInjector };
+export type { FaultOptions };
@@ -0,0 +1,321 @@
+/** @format */
+
+import {
+	createSign,
+	createPublicKey,
+	createVerify,
+	generateKeyPairSync,
+	randomBytes,
+	type KeyObject,
+} from "node:crypto";
+import { TokenVerificationError, TokenVerificationErrorReason } from "@clerk/backend/errors";
+import { isPlainObject } from "./api";
+
+type JwtHeader = {
+	alg: string;
+	typ?: string;
+	kid?: string;
+};
+
+type JwtPayload = Record<string, unknown>;
+
+type SigningKey = {
+	kid: string;
+	privateKey: KeyObject;
+	publicKey: KeyObject;
+};
+
+/**
+ * A key tokens are verified with. Without a `kid`, tokens signed with any key id are
+ * checked against it, like Clerk does for a `jwtKey`.
+ */
+type VerificationKey = {
+	kid?: string;
+	publicKey: KeyObject;
+};
+
+type Jwk = {
+	kty: string;
+	n?: string;
+	e?: string;
+	kid: string;
+	alg: string;
+	use: string;
+};
+
+type Jwks = {
+	keys: Jwk[];
+};
+
+type DecodedJwt = {
+	header: JwtHeader;
+	payload: JwtPayload;
+	signature: Buffer;
+	raw: { header: string; payload: string; signature: string; text: string };
+};
+
+type VerifyJwtOptions = {
+	key: VerificationKey;
+	issuer?: string;
+	authorizedParties?: string[];
+	clockSkewInMs?: number;
+	/**
+	 * Time in milliseconds the token's timestamps are checked against, defaults to now
+	 */
+	currentTime?: number;
+};
+
+// Same result shape Clerk's own `decodeJwt`/`verifyJwt` return
+type JwtResult<T> =
+	| { data: T; errors?: undefined }
+	| { data?: undefined; errors: [TokenVerificationError] };
+
+const DEFAULT_CLOCK_SKEW_IN_MS = 5 * 1000;
+
+const base64UrlEncode = (value: string | Buffer) =>
+	(typeof value === "string" ? Buffer.from(value) : value).toString("base64url");
+
+/**
+ * Generate an RSA keypair used to sign RS256 tokens
+ */
+const createSigningKey = (): SigningKey => {
+	const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+	return {
+		kid: `ins_mock_${randomBytes(8).toString("hex")}`,
+		privateKey,
+		publicKey,
+	};
+};
+
+/**
+ * Sign a payload as a compact RS256 JWT
+ */
+const signJwt = (payload: JwtPayload, key: SigningKey) => {
+	const header: JwtHeader = { alg: "RS256", typ: "JWT", kid: key.kid };
+	const unsigned = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+	const signature = createSign("RSA-SHA256").update(unsigned).sign(key.privateKey);
+	return `${unsigned}.${base64UrlEncode(signature)}`;
+};
+
+/**
+ * Load a PEM public key such as the `jwtKey` option, which Clerk also accepts without
+ * the BEGIN and END lines
+ */
+const loadJwtKey = (jwtKey: string): VerificationKey => {
+	const pem = jwtKey.includes("-----BEGIN")
+		? jwtKey
+		: `-----BEGIN PUBLIC KEY-----\n${jwtKey.replace(/\s/g, "")}\n-----END PUBLIC KEY-----`;
+	return { publicKey: createPublicKey(pem) };
+};
+
+/**
+ * Export the public half of a signing key as PEM, the format of the `jwtKey` option
+ */
+const toPem = (key: SigningKey) => key.publicKey.export({ type: "spki", format: "pem" }).toString();
+
+/**
+ * Check a token's `azp` claim against the authorized parties, returning the error
+ * Clerk's `verifyJwt` fails with
+ */
+const checkAuthorizedParty = (azp: unknown, authorizedParties?: string[]) => {
+	if (azp && authorizedParties?.length && !authorizedParties.includes(azp as string)) {
+		return new TokenVerificationError({
+			reason: TokenVerificationErrorReason.TokenInvalidAuthorizedParties,
+			message: `Invalid JWT Authorized party claim (azp) ${JSON.stringify(azp)}. Expected "${authorizedParties}".`,
+		});
+	}
+};
+
+/**
+ * Expose the public half of a signing key as a JWKS document
+ */
+const toJwks = (key: SigningKey): Jwks => {
+	const { kty, n, e } = key.publicKey.export({ format: "jwk" });
+	return {
+		keys: [{ kty: kty!, n, e, kid: key.kid, alg: "RS256", use: "sig" }],
+	};
+};
+
+/**
+ * Split a compact JWT into its decoded parts without verifying it
+ */
+const decodeJwt = (token: string): JwtResult<DecodedJwt> => {
+	const parts = token.split(".");
+	if (parts.length !== 3) {
+		return {
+			errors: [
+				new TokenVerificationError({
+					reason: TokenVerificationErrorReason.TokenInvalid,
+					message: "Invalid JWT form. A JWT consists of three parts separated by dots.",
+				}),
+			],
+		};
+	}
+
+	const [header, payload, signature] = parts;
+	let decoded: { header: unknown; payload: unknown };
+	try {
+		decoded = {
+			header: JSON.parse(Buffer.from(header, "base64url").toString()),
+			payload: JSON.parse(Buffer.from(payload, "base64url").toString()),
+		};
+	} catch {
+		return {
+			errors: [
+				new TokenVerificationError({
+					reason: TokenVerificationErrorReason.TokenInvalid,
+					message: "Invalid JWT. The header or payload is not valid JSON.",
+				}),
+			],
+		};
+	}
+	if (!isPlainObject(decoded.header) || !isPlainObject(decoded.payload)) {
+		return {
+			errors: [
+				new TokenVerificationError({
+					reason: TokenVerificationErrorReason.TokenInvalid,
+					message: "Invalid JWT. The header or payload is not a JSON object.",
+				}),
+			],
+		};
+	}
+	return {
+		data: {
+			header: decoded.header as JwtHeader,
+			payload: decoded.payload as JwtPayload,
+			signature: Buffer.from(signature, "base64url"),
+			raw: { header, payload, signature, text: token },
+		},
+	};
+};
+
+const assertTimestampClaim = (name: string, value: unknown, optional: boolean) => {
+	if (optional && typeof value === "undefined") {
+		return;
+	}
+	if (typeof value !== "number") {
+		throw new TokenVerificationError({
+			reason: TokenVerificationErrorReason.TokenVerificationFailed,
+			message: `Invalid JWT ${name} claim ${JSON.stringify(value)}. Expected number.`,
+		});
+	}
+};
+
+/**
+ * Check a token's structure, claims and signature in the same order Clerk's
+ * `verifyJwt` does, failing with the same `TokenVerificationErrorReason`s
+ */
+const verifyJwt = (token: string, options: VerifyJwtOptions): JwtResult<JwtPayload> => {
+	const { data: decoded, errors } = decodeJwt(token);
+	if (errors) {
+		return { errors };
+	}
+
+	const { header, payload } = decoded;
+	const clockSkewInMs = options.clockSkewInMs ?? DEFAULT_CLOCK_SKEW_IN_MS;
+	const now = options.currentTime ?? Date.now();
+
+	try {
+		if (typeof header.typ !== "undefined" && header.typ !== "JWT") {
+			throw new TokenVerificationError({
+				reason: TokenVerificationErrorReason.TokenInvalid,
+				message: `Invalid JWT type ${JSON.stringify(header.typ)}. Expected "JWT".`,
+			});
+		}
+		if (header.alg !== "RS256") {
+			throw new TokenVerificationError({
+				reason: TokenVerificationErrorReason.TokenInvalidAlgorithm,
+				message: `Invalid JWT algorithm ${JSON.stringify(header.alg)}. Supported: RS256.`,
+			});
+		}
+		if (typeof payload.sub !== "string") {
+			throw new TokenVerificationError({
+				reason: TokenVerificationErrorReason.TokenVerificationFailed,
+				message: `Subject claim (sub) is required and must be a string. Received ${JSON.stringify(payload.sub)}.`,
+			});
+		}
+		if (options.issuer && payload.iss !== options.issuer) {
+			throw new TokenVerificationError({
+				reason: TokenVerificationErrorReason.TokenVerificationFailed,
+				message: `Invalid JWT issuer claim (iss) ${JSON.stringify(payload.iss)}. Expected "${options.issuer}".`,
+			});
+		}
+
+		const authorizedPartyError = checkAuthorizedParty(payload.azp, options.authorizedParties);
+		if (authorizedPartyError) {
+			throw authorizedPartyError;
+		}
+
+		assertTimestampClaim("expiry date (exp)", payload.exp, false);
+		if ((payload.exp as number) * 1000 <= now - clockSkewInMs) {
+			throw new TokenVerificationError({
+				reason: TokenVerificationErrorReason.TokenExpired,
+				message: `JWT is expired. Expiry date: ${new Date((payload.exp as number) * 1000).toUTCString()}, Current date: ${new Date(now).toUTCString()}.`,
+			});
+		}
+		assertTimestampClaim("not before date (nbf)", payload.nbf, true);
+		if (typeof payload.nbf === "number" && payload.nbf * 1000 > now + clockSkewInMs) {
+			throw new TokenVerificationError({
+				reason: TokenVerificationErrorReason.TokenNotActiveYet,
+				message: `JWT cannot be used prior to not before date claim (nbf). Not before date: ${new Date(payload.nbf * 1000).toUTCString()}; Current date: ${new Date(now).toUTCString()};`,
+			});
+		}
+		assertTimestampClaim("issued at date (iat)", payload.iat, true);
+		if (typeof payload.iat === "number" && payload.iat * 1000 > now + clockSkewInMs) {
+			throw new TokenVerificationError({
+				reason: TokenVerificationErrorReason.TokenIatInTheFuture,
+				message: `JWT issued at date claim (iat) is in the future. Issued at date: ${new Date(payload.iat * 1000).toUTCString()}; Current date: ${new Date(now).toUTCString()};`,
+			});
+		}
+
+		if (header.kid && options.key.kid && header.kid !== options.key.kid) {
+			throw new TokenVerificationError({
+				reason: TokenVerificationErrorReason.JWKKidMismatch,
+				message: `Unable to find a signing key in JWKS that matches the kid="${header.kid}" of the provided session token.`,
+			});
+		}
+	} catch (error) {
+		if (error instanceof TokenVerificationError) {
+			return { errors: [error] };
+		}
+		throw error;
+	}
+
+	const isValidSignature = createVerify("RSA-SHA256")
+		.update(`${decoded.raw.header}.${decoded.raw.payload}`)
+		.verify(options.key.publicKey, decoded.signature);
+	if (!isValidSignature) {
+		return {
+			errors: [
+				new TokenVerificationError({
+					reason: TokenVerificationErrorReason.TokenInvalidSignature,
+					message: "JWT signature is invalid.",
+				}),
+			],
+		};
+	}
+
+	return { data: payload };
+};
+
+export {
+	checkAuthorizedParty,
+	createSigningKey,
+	decodeJwt,
+	loadJwtKey,
+	signJwt,
+	toJwks,
+	toPem,
+	verifyJwt,
+};
+export type {
+	DecodedJwt,
+	Jwk,
+	Jwks,
+	JwtHeader,
+	JwtPayload,
+	JwtResult,
+	SigningKey,
+	VerificationKey,
+	VerifyJwtOptions,
+};
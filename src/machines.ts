@@ -0,0 +1,215 @@
+/** @format */
+
+import { createId } from "./api";
+import { toMilliseconds, type Duration, type MockClock } from "./clock";
+
+type MachineTokenType = "api_key" | "m2m_token" | "oauth_token";
+
+/**
+ * Kinds of tokens Clerk authenticates, as in its `acceptsToken` option
+ */
+type TokenType = "session_token" | MachineTokenType;
+
+/**
+ * Token types a route accepts, `"any"` for all of them
+ */
+type AcceptsToken = TokenType | TokenType[] | "any";
+
+type MachineTokenOptions = {
+	/**
+	 * Who the token acts for: the user or organization owning an API key, the machine
+	 * (`mch_`) of an M2M token, or the user an OAuth application acts for
+	 */
+	subject?: string;
+	scopes?: string[];
+	/**
+	 * Custom claims of API keys and M2M tokens
+	 */
+	claims?: Record<string, unknown> | null;
+	/**
+	 * Name of an API key
+	 */
+	name?: string;
+	/**
+	 * Client id of the OAuth application an access token was issued to
+	 */
+	clientId?: string;
+	/**
+	 * How long until the token expires, e.g. `"1h"`. Tokens don't expire by default.
+	 */
+	expiresIn?: Duration;
+};
+
+type MachineTokenRecord = {
+	id: string;
+	tokenType: MachineTokenType;
+	subject: string;
+	scopes: string[];
+	claims: Record<string, unknown> | null;
+	name: string | null;
+	clientId: string | null;
+	expiration: number | null;
+	revoked: boolean;
+};
+
+// Clerk tells machine tokens apart from session tokens by their prefix
+const MACHINE_TOKEN_PREFIXES: Record<MachineTokenType, string> = {
+	api_key: "ak",
+	m2m_token: "mt",
+	oauth_token: "oat",
+};
+
+const MACHINE_TOKEN_NAMES: Record<MachineTokenType, string> = {
+	api_key: "API key",
+	m2m_token: "M2M token",
+	oauth_token: "OAuth token",
+};
+
+/**
+ * The machine token type of a token, `undefined` for session tokens
+ */
+const getMachineTokenType = (token: string) =>
+	(Object.keys(MACHINE_TOKEN_PREFIXES) as MachineTokenType[]).find((tokenType) =>
+		token.startsWith(`${MACHINE_TOKEN_PREFIXES[tokenType]}_`)
+	);
+
+const isTokenTypeAccepted = (tokenType: TokenType, acceptsToken: AcceptsToken) =>
+	acceptsToken === "any" || [acceptsToken].flat().includes(tokenType);
+
+/**
+ * Machine tokens issued by the mock, checked against the mock clock
+ */
+class MachineTokenStore {
+	private tokens = new Map<string, MachineTokenRecord>();
+	private clock: MockClock;
+
+	constructor(clock: MockClock) {
+		this.clock = clock;
+	}
+
+	issue(tokenType: MachineTokenType, subject: string, options: MachineTokenOptions = {}) {
+		const prefix = MACHINE_TOKEN_PREFIXES[tokenType];
+		const token = createId(prefix);
+		this.tokens.set(token, {
+			id: createId(prefix),
+			tokenType,
+			subject,
+			scopes: options.scopes ?? [],
+			claims: options.claims ?? null,
+			name: options.name ?? null,
+			clientId: options.clientId ?? null,
+			expiration:
+				options.expiresIn === undefined
+					? null
+					: this.clock.now() + toMilliseconds(options.expiresIn),
+			revoked: false,
+		});
+		return token;
+	}
+
+	/**
+	 * Look a token up, returning why it can't be used when it's unknown, revoked or expired
+	 */
+	verify(token: string): { data: MachineTokenRecord; error?: undefined } | { error: string } {
+		const data = this.tokens.get(token);
+		const name = MACHINE_TOKEN_NAMES[getMachineTokenType(token) ?? "api_key"];
+		if (!data) {
+			return { error: `${name} not found` };
+		}
+		if (data.revoked) {
+			return { error: `${name} ${data.id} is revoked` };
+		}
+		if (data.expiration !== null && this.clock.now() >= data.expiration) {
+			return { error: `${name} ${data.id} is expired` };
+		}
+		return { data };
+	}
+
+	revoke(token: string) {
+		const data = this.tokens.get(token);
+		if (!data) {
+			throw new Error(`Unknown machine token "${token}"`);
+		}
+		data.revoked = true;
+	}
+
+	clear() {
+		this.tokens.clear();
+	}
+}
+
+/**
+ * The auth object of a request authenticated with a machine token, shaped like Clerk's
+ * `AuthenticatedMachineObject`
+ */
+const authenticatedMachineObject = (data: MachineTokenRecord, token: string) => {
+	const { id, tokenType, subject, scopes, claims } = data;
+	const base = {
+		id,
+		tokenType,
+		subject,
+		scopes,
+		isAuthenticated: true as const,
+		getToken: async () => token,
+		// Clerk doesn't evaluate `has()` for machine tokens
+		has: () => false,
+		debug: () => ({ tokenType, id, subject }),
+	};
+	if (tokenType === "api_key") {
+		return {
+			...base,
+			name: data.name ?? "",
+			claims,
+			userId: subject.startsWith("user_") ? subject : null,
+			orgId: subject.startsWith("org_") ? subject : null,
+		};
+	}
+	if (tokenType === "m2m_token") {
+		return { ...base, claims, machineId: subject };
+	}
+	return { ...base, userId: subject, clientId: data.clientId ?? "" };
+};
+
+/**
+ * The auth object of a request that didn't present a valid token of the accepted machine
+ * token type, or of any accepted type when `tokenType` is `null`
+ */
+const unauthenticatedMachineObject = (
+	tokenType: MachineTokenType | null,
+	debug: () => Record<string, unknown>
+) => {
+	const base = {
+		tokenType,
+		isAuthenticated: false as const,
+		getToken: async () => null,
+		has: () => false,
+		debug,
+	};
+	if (tokenType === null) {
+		return base;
+	}
+	return {
+		...base,
+		id: null,
+		subject: null,
+		scopes: null,
+		...{
+			api_key: { name: null, claims: null, userId: null, orgId: null },
+			m2m_token: { claims: null, machineId: null },
+			oauth_token: { userId: null, clientId: null },
+		}[tokenType],
+	};
+};
+
+type MachineAuthObject =
+	| ReturnType<typeof authenticatedMachineObject>
+	| ReturnType<typeof unauthenticatedMachineObject>;
+
+export {
+	MachineTokenStore,
+	authenticatedMachineObject,
+	getMachineTokenType,
+	isTokenTypeAccepted,
+	unauthenticatedMachineObject,
+};
+export type { AcceptsToken, MachineAuthObject, MachineTokenOptions, MachineTokenType, TokenType };
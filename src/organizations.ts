@@ -0,0 +1,408 @@
+/** @format */
+
+import type {
+	Organization,
+	OrganizationJSON,
+	OrganizationMembership,
+	OrganizationMembershipJSON,
+} from "@clerk/backend";
+import {
+	createAPIError,
+	createId,
+	mergeMetadata,
+	notFound,
+	paginate,
+	type PaginationParams,
+} from "./api";
+import type { MockClock } from "./clock";
+import type { UserStore } from "./users";
+
+/**
+ * Friendlier camelCase input used to seed organizations and their members
+ */
+type OrganizationFixture = {
+	id?: string;
+	name?: string;
+	slug?: string;
+	publicMetadata?: Record<string, unknown>;
+	privateMetadata?: Record<string, unknown>;
+	maxAllowedMemberships?: number;
+	createdBy?: string;
+	createdAt?: number;
+	members?: { userId: string; role: string; permissions?: string[] }[];
+};
+
+/**
+ * Permissions granted by each role, used whenever a membership's role is set.
+ * Clerk leaves system permissions out of session tokens, so only custom ones belong here.
+ */
+type RolePermissions = Record<string, string[]>;
+
+type MembershipRecord = {
+	id: string;
+	organizationId: string;
+	userId: string;
+	role: string;
+	permissions: string[];
+	publicMetadata: Record<string, unknown>;
+	privateMetadata: Record<string, unknown>;
+	createdAt: number;
+	updatedAt: number;
+};
+
+type GetOrganizationParams = { organizationId: string } | { slug: string };
+
+type OrganizationListParams = PaginationParams & {
+	organizationId?: string[];
+	query?: string;
+};
+
+type CreateOrganizationParams = {
+	name: string;
+	slug?: string;
+	createdBy?: string;
+	maxAllowedMemberships?: number;
+	publicMetadata?: Record<string, unknown>;
+	privateMetadata?: Record<string, unknown>;
+};
+
+type MembershipParams = {
+	organizationId: string;
+	userId: string;
+	role: string;
+};
+
+type MembershipMetadataParams = {
+	organizationId: string;
+	userId: string;
+	publicMetadata?: Record<string, unknown>;
+	privateMetadata?: Record<string, unknown>;
+};
+
+const slugify = (name: string) =>
+	name
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+
+const membershipKey = (organizationId: string, userId: string) => `${organizationId}:${userId}`;
+
+/**
+ * In-memory organizations and memberships backing the mocked `clerkClient.organizations` API
+ */
+class OrganizationStore {
+	private organizations = new Map<string, OrganizationJSON>();
+	private memberships = new Map<string, MembershipRecord>();
+	private users: UserStore;
+	private clock: MockClock;
+	private rolePermissions: RolePermissions;
+
+	constructor(users: UserStore, clock: MockClock, rolePermissions: RolePermissions = {}) {
+		this.users = users;
+		this.clock = clock;
+		this.rolePermissions = rolePermissions;
+	}
+
+	/**
+	 * Add or replace organizations, creating their members' user records as needed
+	 */
+	seed(fixtures: OrganizationFixture[]) {
+		return fixtures.map((fixture) => {
+			const now = fixture.createdAt ?? this.clock.now();
+			const id = fixture.id ?? createId("org");
+			const name = fixture.name ?? id;
+			const data: OrganizationJSON = {
+				object: "organization",
+				id,
+				name,
+				slug: fixture.slug ?? slugify(name),
+				image_url: "https://img.clerk.com/default",
+				has_image: false,
+				max_allowed_memberships: fixture.maxAllowedMemberships ?? 0,
+				admin_delete_enabled: true,
+				public_metadata: fixture.publicMetadata ?? {},
+				private_metadata: fixture.privateMetadata ?? {},
+				created_by: fixture.createdBy,
+				created_at: now,
+				updated_at: now,
+			};
+			this.organizations.set(id, data);
+			for (const member of fixture.members ?? []) {
+				this.users.ensure(member.userId);
+				this.setMembership(id, member.userId, member.role, member.permissions);
+			}
+			return data;
+		});
+	}
+
+	/**
+	 * Make sure an organization handed out by the auth mock exists, keeping an explicitly
+	 * mocked slug in sync
+	 */
+	ensure(organizationId: string, slug?: string) {
+		const data = this.organizations.get(organizationId);
+		if (!data) {
+			this.seed([{ id: organizationId, slug: slug ?? organizationId }]);
+		} else if (slug && data.slug !== slug) {
+			this.organizations.set(organizationId, { ...data, slug });
+		}
+	}
+
+	get(params: GetOrganizationParams) {
+		const data =
+			"organizationId" in params
+				? this.organizations.get(params.organizationId)
+				: [...this.organizations.values()].find(({ slug }) => slug === params.slug);
+		if (!data) {
+			throw notFound(
+				"Organization",
+				"organizationId" in params ? params.organizationId : params.slug
+			);
+		}
+		return data;
+	}
+
+	list() {
+		return [...this.organizations.values()];
+	}
+
+	findMembership(organizationId: string, userId: string) {
+		return this.memberships.get(membershipKey(organizationId, userId));
+	}
+
+	getMembership(organizationId: string, userId: string) {
+		const membership = this.findMembership(organizationId, userId);
+		if (!membership) {
+			throw notFound("Organization membership", membershipKey(organizationId, userId));
+		}
+		return membership;
+	}
+
+	listMemberships(organizationId: string) {
+		return [...this.memberships.values()].filter(
+			(membership) => membership.organizationId === organizationId
+		);
+	}
+
+	/**
+	 * Create or update a membership. Without explicit permissions they are derived from the role.
+	 */
+	setMembership(organizationId: string, userId: string, role: string, permissions?: string[]) {
+		const existing = this.findMembership(organizationId, userId);
+		const now = this.clock.now();
+		const membership: MembershipRecord = {
+			id: existing?.id ?? createId("orgmem"),
+			organizationId,
+			userId,
+			role,
+			permissions: permissions ?? this.rolePermissions[role] ?? [],
+			publicMetadata: existing?.publicMetadata ?? {},
+			privateMetadata: existing?.privateMetadata ?? {},
+			createdAt: existing?.createdAt ?? now,
+			updatedAt: now,
+		};
+		this.memberships.set(membershipKey(organizationId, userId), membership);
+		return membership;
+	}
+
+	updateMembership(organizationId: string, userId: string, changes: Partial<MembershipRecord>) {
+		const membership = {
+			...this.getMembership(organizationId, userId),
+			...changes,
+			updatedAt: this.clock.now(),
+		};
+		this.memberships.set(membershipKey(organizationId, userId), membership);
+		return membership;
+	}
+
+	deleteMembership(organizationId: string, userId: string) {
+		const membership = this.getMembership(organizationId, userId);
+		this.memberships.delete(membershipKey(organizationId, userId));
+		return membership;
+	}
+
+	toOrganizationJSON(data: OrganizationJSON): OrganizationJSON {
+		return { ...data, members_count: this.listMemberships(data.id).length };
+	}
+
+	toMembershipJSON(membership: MembershipRecord): OrganizationMembershipJSON {
+		const user = this.users.find(membership.userId);
+		return {
+			object: "organization_membership",
+			id: membership.id,
+			role: membership.role,
+			permissions: membership.permissions,
+			public_metadata: membership.publicMetadata,
+			private_metadata: membership.privateMetadata,
+			created_at: membership.createdAt,
+			updated_at: membership.updatedAt,
+			organization: this.toOrganizationJSON(
+				this.get({ organizationId: membership.organizationId })
+			),
+			public_user_data: {
+				identifier: user?.email_addresses[0]?.email_address ?? user?.username ?? membership.userId,
+				first_name: user?.first_name ?? null,
+				last_name: user?.last_name ?? null,
+				image_url: user?.image_url ?? "",
+				has_image: user?.has_image ?? false,
+				user_id: membership.userId,
+			},
+		};
+	}
+
+	clear() {
+		this.organizations.clear();
+		this.memberships.clear();
+	}
+}
+
+/**
+ * Convert a stored organization to the camelCase shape of `@clerk/backend`'s `Organization`
+ */
+const toOrganization = (data: OrganizationJSON) =>
+	({
+		id: data.id,
+		name: data.name,
+		slug: data.slug,
+		imageUrl: data.image_url ?? "",
+		hasImage: data.has_image,
+		createdAt: data.created_at,
+		updatedAt: data.updated_at,
+		publicMetadata: data.public_metadata,
+		privateMetadata: data.private_metadata ?? {},
+		maxAllowedMemberships: data.max_allowed_memberships,
+		adminDeleteEnabled: data.admin_delete_enabled,
+		membersCount: data.members_count,
+		createdBy: data.created_by,
+		raw: data,
+	}) as unknown as Organization;
+
+/**
+ * Convert a membership to the camelCase shape of `@clerk/backend`'s `OrganizationMembership`
+ */
+const toOrganizationMembership = (data: OrganizationMembershipJSON) =>
+	({
+		id: data.id,
+		role: data.role,
+		permissions: data.permissions,
+		publicMetadata: data.public_metadata,
+		privateMetadata: data.private_metadata ?? {},
+		createdAt: data.created_at,
+		updatedAt: data.updated_at,
+		organization: toOrganization(data.organization),
+		publicUserData: {
+			identifier: data.public_user_data.identifier,
+			firstName: data.public_user_data.first_name,
+			lastName: data.public_user_data.last_name,
+			imageUrl: data.public_user_data.image_url,
+			hasImage: data.public_user_data.has_image,
+			userId: data.public_user_data.user_id,
+		},
+		raw: data,
+	}) as unknown as OrganizationMembership;
+
+/**
+ * Build the `organizations` namespace of the mocked Clerk client on top of a store
+ */
+const createOrganizationApi = (store: OrganizationStore, users: UserStore) => {
+	const membership = (organizationId: string, userId: string) =>
+		toOrganizationMembership(store.toMembershipJSON(store.getMembership(organizationId, userId)));
+
+	return {
+		getOrganization: async (params: GetOrganizationParams) =>
+			toOrganization(store.toOrganizationJSON(store.get(params))),
+
+		getOrganizationList: async (params: OrganizationListParams = {}) => {
+			const { organizationId, query } = params;
+			const organizations = store
+				.list()
+				.filter(
+					(data) =>
+						(!organizationId?.length || organizationId.includes(data.id)) &&
+						(!query ||
+							[data.id, data.name, data.slug].some((value) =>
+								value.toLowerCase().includes(query.toLowerCase())
+							))
+				)
+				.sort((a, b) => b.created_at - a.created_at);
+			const { data, totalCount } = paginate(organizations, params);
+			return {
+				data: data.map((organization) => toOrganization(store.toOrganizationJSON(organization))),
+				totalCount,
+			};
+		},
+
+		createOrganization: async ({ createdBy, ...params }: CreateOrganizationParams) => {
+			if (createdBy) {
+				users.get(createdBy);
+			}
+			const [data] = store.seed([{ ...params, createdBy }]);
+			// Like the Backend API, the creator becomes the organization's first admin
+			if (createdBy) {
+				store.setMembership(data.id, createdBy, "org:admin");
+			}
+			return toOrganization(store.toOrganizationJSON(data));
+		},
+
+		getOrganizationMembershipList: async (
+			params: PaginationParams & { organizationId: string }
+		) => {
+			store.get({ organizationId: params.organizationId });
+			const memberships = store
+				.listMemberships(params.organizationId)
+				.sort((a, b) => b.createdAt - a.createdAt);
+			const { data, totalCount } = paginate(memberships, params);
+			return {
+				data: data.map((record) => toOrganizationMembership(store.toMembershipJSON(record))),
+				totalCount,
+			};
+		},
+
+		createOrganizationMembership: async ({ organizationId, userId, role }: MembershipParams) => {
+			store.get({ organizationId });
+			users.get(userId);
+			if (store.findMembership(organizationId, userId)) {
+				throw createAPIError(
+					422,
+					"already_a_member_in_organization",
+					"already a member",
+					`User ${userId} is already a member of organization ${organizationId}`
+				);
+			}
+			store.setMembership(organizationId, userId, role);
+			return membership(organizationId, userId);
+		},
+
+		updateOrganizationMembership: async ({ organizationId, userId, role }: MembershipParams) => {
+			store.getMembership(organizationId, userId);
+			store.setMembership(organizationId, userId, role);
+			return membership(organizationId, userId);
+		},
+
+		updateOrganizationMembershipMetadata: async ({
+			organizationId,
+			userId,
+			publicMetadata,
+			privateMetadata,
+		}: MembershipMetadataParams) => {
+			const existing = store.getMembership(organizationId, userId);
+			store.updateMembership(organizationId, userId, {
+				publicMetadata: mergeMetadata(existing.publicMetadata, publicMetadata),
+				privateMetadata: mergeMetadata(existing.privateMetadata, privateMetadata),
+			});
+			return membership(organizationId, userId);
+		},
+
+		deleteOrganizationMembership: async ({
+			organizationId,
+			userId,
+		}: Omit<MembershipParams, "role">) => {
+			const deleted = membership(organizationId, userId);
+			store.deleteMembership(organizationId, userId);
+			return deleted;
+		},
+	};
+};
+
+export { OrganizationStore, createOrganizationApi, toOrganization, toOrganizationMembership };
+export type { MembershipRecord, OrganizationFixture, RolePermissions };
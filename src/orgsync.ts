@@ -0,0 +1,93 @@
+/** @format */
+
+/**
+ * Clerk's `organizationSyncOptions`: URL patterns the active organization of a request is
+ * derived from. Patterns starting with `/` match the path, like Clerk's, others match the
+ * hostname, e.g. `":slug.app.test"`.
+ */
+type OrganizationSyncOptions = {
+	/**
+	 * Patterns with an `:id` or `:slug` parameter identifying the organization to activate,
+	 * e.g. `["/orgs/:slug", "/orgs/:slug/(.*)"]`. They take precedence over personal
+	 * account patterns.
+	 */
+	organizationPatterns?: string[];
+	/**
+	 * Patterns of routes that activate the personal account, e.g. `["/me", "/me/(.*)"]`
+	 */
+	personalAccountPatterns?: string[];
+};
+
+/**
+ * What a request's URL asks to activate
+ */
+type OrganizationSyncTarget =
+	| { type: "organization"; organizationId?: string; organizationSlug?: string }
+	| { type: "personalAccount" };
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Compile a pattern with `:name` parameters and `(.*)` wildcards into a regular expression.
+ * Parameters match a single path segment, or a single label of a hostname.
+ */
+const compilePattern = (pattern: string) => {
+	const isPath = pattern.startsWith("/");
+	const segment = isPath ? "[^/]+" : "[^./]+";
+	const source = pattern
+		.split(/(:\w+|\(\.\*\))/)
+		.map((part) => {
+			if (part === "(.*)") {
+				return ".*";
+			}
+			if (part.startsWith(":")) {
+				return `(?<${part.slice(1)}>${segment})`;
+			}
+			return escape(part);
+		})
+		.join("");
+	return { isPath, regex: new RegExp(`^${source}$`, isPath ? "" : "i") };
+};
+
+const matchPatterns = (patterns: string[] | undefined, url: URL) => {
+	for (const pattern of patterns ?? []) {
+		const { isPath, regex } = compilePattern(pattern);
+		const match = regex.exec(isPath ? url.pathname : url.hostname);
+		if (match) {
+			return match.groups ?? {};
+		}
+	}
+	return undefined;
+};
+
+/**
+ * The organization or personal account a request's URL asks to activate, `null` when it
+ * matches no pattern
+ */
+const getOrganizationSyncTarget = (
+	url: URL,
+	options: OrganizationSyncOptions | undefined
+): OrganizationSyncTarget | null => {
+	if (!options) {
+		return null;
+	}
+	const params = matchPatterns(options.organizationPatterns, url);
+	try {
+		if (params?.id) {
+			return { type: "organization", organizationId: decodeURIComponent(params.id) };
+		}
+		if (params?.slug) {
+			return { type: "organization", organizationSlug: decodeURIComponent(params.slug) };
+		}
+	} catch {
+		// Malformed percent-encoding matches no organization
+		return null;
+	}
+	if (matchPatterns(options.personalAccountPatterns, url)) {
+		return { type: "personalAccount" };
+	}
+	return null;
+};
+
+export { getOrganizationSyncTarget };
+export type { OrganizationSyncOptions, OrganizationSyncTarget };
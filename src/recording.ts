@@ -0,0 +1,126 @@
+/** @format */
+
+/// <reference types="bun-types" />
+
+import type { CheckAuthorizationParams } from "./authorization";
+
+/**
+ * How a request presented its identity
+ */
+type CredentialType = "bearer" | "cookie" | "identity-header" | "resolve-auth" | "none";
+
+/**
+ * A `has()` check a route evaluated and its result
+ */
+type AuthorizationCheck = {
+	params: CheckAuthorizationParams;
+	result: boolean;
+};
+
+/**
+ * A request the mock authenticated, along with the `has()` checks evaluated for it
+ */
+type AuthCall = {
+	method: string;
+	path: string;
+	credential: { type: CredentialType; token?: string };
+	status: "signed-in" | "signed-out" | "handshake";
+	reason: string | null;
+	userId: string | null;
+	sessionId: string | null;
+	orgId: string | null | undefined;
+	checks: AuthorizationCheck[];
+	/**
+	 * Mock clock time the request was authenticated at
+	 */
+	timestamp: number;
+};
+
+type MatcherResult = { pass: boolean; message: () => string };
+
+type RecordingMock = { calls: readonly AuthCall[] };
+
+const matchesPath = (call: AuthCall, path: string | RegExp) =>
+	typeof path === "string" ? call.path === path : path.test(call.path);
+
+const describeCalls = (calls: readonly AuthCall[]) =>
+	calls.length
+		? calls
+				.map(
+					({ method, path, status, userId, checks }) =>
+						`  ${method} ${path} -> ${status}${userId ? ` as ${userId}` : ""}` +
+						checks
+							.map(({ params, result }) => `\n    has(${JSON.stringify(params)}) = ${result}`)
+							.join("")
+				)
+				.join("\n")
+		: "  (no requests)";
+
+const isSubset = (expected: Record<string, unknown>, actual: Record<string, unknown>) =>
+	Object.entries(expected).every(([key, value]) => Bun.deepEquals(actual[key], value));
+
+/**
+ * Matchers for `expect.extend()`, asserting on the requests a mock instance recorded
+ */
+const clerkMatchers = {
+	/**
+	 * The mock signed in a request to the path, optionally as the given user
+	 */
+	toHaveAuthorized(received: RecordingMock, path: string | RegExp, userId?: string): MatcherResult {
+		const pass = received.calls.some(
+			(call) =>
+				matchesPath(call, path) &&
+				call.status === "signed-in" &&
+				(userId === undefined || call.userId === userId)
+		);
+		return {
+			pass,
+			message: () =>
+				`expected the mock ${pass ? "not " : ""}to have authorized ${path}` +
+				`${userId ? ` as ${userId}` : ""}, recorded:\n${describeCalls(received.calls)}`,
+		};
+	},
+
+	/**
+	 * The mock signed out or redirected a request to the path
+	 */
+	toHaveRejected(received: RecordingMock, path: string | RegExp): MatcherResult {
+		const pass = received.calls.some(
+			(call) => matchesPath(call, path) && call.status !== "signed-in"
+		);
+		return {
+			pass,
+			message: () =>
+				`expected the mock ${pass ? "not " : ""}to have rejected ${path}, recorded:\n` +
+				describeCalls(received.calls),
+		};
+	},
+
+	/**
+	 * A route evaluated `has()` with the given parameters, optionally on a specific path
+	 * and with a specific result
+	 */
+	toHaveCheckedAuthorization(
+		received: RecordingMock,
+		params: CheckAuthorizationParams,
+		{ path, result }: { path?: string | RegExp; result?: boolean } = {}
+	): MatcherResult {
+		const pass = received.calls.some(
+			(call) =>
+				(path === undefined || matchesPath(call, path)) &&
+				call.checks.some(
+					(check) =>
+						isSubset(params, check.params) && (result === undefined || check.result === result)
+				)
+		);
+		return {
+			pass,
+			message: () =>
+				`expected ${pass ? "no" : "a"} has(${JSON.stringify(params)}) check` +
+				`${path ? ` on ${path}` : ""}, recorded:\n${describeCalls(received.calls)}`,
+		};
+	},
+};
+
+export { clerkMatchers };
+export type { AuthCall, AuthorizationCheck, CredentialType };
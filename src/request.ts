@@ -0,0 +1,193 @@
+/** @format */
+
+// Cookie, query parameter and reason names below mirror Clerk's backend constants,
+// kept local to avoid internal imports
+
+const Cookies = {
+	Session: "__session",
+	ClientUat: "__client_uat",
+	DevBrowser: "__clerk_db_jwt",
+	Handshake: "__clerk_handshake",
+} as const;
+
+const QueryParameters = {
+	DevBrowser: "__clerk_db_jwt",
+	LegacyDevBrowser: "__dev_session",
+	SuffixedCookies: "suffixed_cookies",
+	HandshakeReason: "__clerk_hs_reason",
+	ClerkSynced: "__clerk_synced",
+	ClerkRedirectUrl: "__clerk_redirect_url",
+} as const;
+
+const AuthErrorReason = {
+	ClientUATWithoutSessionToken: "client-uat-but-no-session-token",
+	DevBrowserMissing: "dev-browser-missing",
+	DevBrowserSync: "dev-browser-sync",
+	HeaderMissingCORS: "header-missing-cors",
+	PrimaryRespondsToSyncing: "primary-responds-to-syncing",
+	SatelliteCookieNeedsSyncing: "satellite-needs-syncing",
+	SessionTokenAndUATMissing: "session-token-and-uat-missing",
+	SessionTokenMissing: "session-token-missing",
+	SessionTokenExpired: "session-token-expired",
+	SessionTokenIATBeforeClientUAT: "session-token-iat-before-client-uat",
+	SessionTokenNBF: "session-token-nbf",
+	SessionTokenIatInTheFuture: "session-token-iat-in-the-future",
+	SessionTokenWithoutClientUAT: "session-token-but-no-client-uat",
+	TokenTypeMismatch: "token-type-mismatch",
+	UnexpectedError: "unexpected-error",
+} as const;
+
+const RefreshTokenErrorReason = {
+	NonEligibleNoCookie: "non-eligible-no-refresh-cookie",
+	NonEligibleNonGet: "non-eligible-non-get",
+} as const;
+
+type InstanceType = "production" | "development";
+
+const PUBLISHABLE_KEY_LIVE_PREFIX = "pk_live_";
+const PUBLISHABLE_KEY_TEST_PREFIX = "pk_test_";
+
+/**
+ * Session related values read from a request's cookies and query string
+ */
+type SessionCookies = {
+	sessionToken: string | undefined;
+	clientUat: number;
+	devBrowserToken: string | undefined;
+};
+
+const parseCookies = (request: Request) => {
+	const cookies = new Map<string, string>();
+	for (const pair of (request.headers.get("cookie") ?? "").split(";")) {
+		const index = pair.indexOf("=");
+		if (index === -1) {
+			continue;
+		}
+		const name = pair.slice(0, index).trim();
+		const value = pair.slice(index + 1).trim();
+		try {
+			cookies.set(name, decodeURIComponent(value));
+		} catch {
+			cookies.set(name, value);
+		}
+	}
+	return cookies;
+};
+
+const readSessionCookies = (request: Request): SessionCookies => {
+	const cookies = parseCookies(request);
+	const url = new URL(request.url);
+	return {
+		sessionToken: cookies.get(Cookies.Session) || undefined,
+		// A missing or "0" client_uat both mean the client is signed out
+		clientUat: Number.parseInt(cookies.get(Cookies.ClientUat) ?? "") || 0,
+		devBrowserToken:
+			url.searchParams.get(QueryParameters.DevBrowser) ||
+			cookies.get(Cookies.DevBrowser) ||
+			undefined,
+	};
+};
+
+/**
+ * Cookies are only trusted for same-origin requests. Cross-origin requests have to
+ * send the session token in the Authorization header.
+ */
+const isCrossOriginRequest = (request: Request) => {
+	const origin = request.headers.get("origin");
+	if (!origin) {
+		return false;
+	}
+	try {
+		return new URL(origin).origin !== new URL(request.url).origin;
+	} catch {
+		return true;
+	}
+};
+
+/**
+ * Only document requests can follow a handshake redirect, everything else is signed out
+ */
+const isRequestEligibleForHandshake = (request: Request) => {
+	const secFetchDest = request.headers.get("sec-fetch-dest");
+	if (secFetchDest === "document" || secFetchDest === "iframe") {
+		return true;
+	}
+	return !secFetchDest && !!request.headers.get("accept")?.startsWith("text/html");
+};
+
+/**
+ * Build the Frontend API handshake URL a document request is redirected to
+ */
+const buildHandshakeUrl = (
+	request: Request,
+	{
+		frontendApi,
+		reason,
+		instanceType,
+		devBrowserToken,
+	}: {
+		frontendApi: string;
+		reason: string;
+		instanceType: InstanceType;
+		devBrowserToken?: string;
+	}
+) => {
+	const redirectUrl = new URL(request.url);
+	redirectUrl.searchParams.delete(QueryParameters.DevBrowser);
+	redirectUrl.searchParams.delete(QueryParameters.LegacyDevBrowser);
+
+	const url = new URL(`https://${frontendApi.replace(/http(s)?:\/\//, "")}/v1/client/handshake`);
+	url.searchParams.append("redirect_url", redirectUrl.href);
+	url.searchParams.append(QueryParameters.SuffixedCookies, "false");
+	url.searchParams.append(QueryParameters.HandshakeReason, reason);
+	if (instanceType === "development" && devBrowserToken) {
+		url.searchParams.append(QueryParameters.DevBrowser, devBrowserToken);
+	}
+	return url.href;
+};
+
+const isPublishableKey = (key: string) =>
+	(key.startsWith(PUBLISHABLE_KEY_LIVE_PREFIX) || key.startsWith(PUBLISHABLE_KEY_TEST_PREFIX)) &&
+	Buffer.from(key.split("_")[2] ?? "", "base64")
+		.toString()
+		.endsWith("$");
+
+/**
+ * Read the instance type and Frontend API host from a publishable key, throwing the same
+ * errors as Clerk's `parsePublishableKey` for a missing or malformed key
+ */
+const parsePublishableKey = (
+	key: string | undefined,
+	{ proxyUrl, domain }: { proxyUrl?: string; domain?: string } = {}
+): { instanceType: InstanceType; frontendApi: string } => {
+	if (!key) {
+		throw new Error(
+			"Publishable key is missing. Ensure that your publishable key is correctly configured. Double-check your environment configuration for your keys, or access them here: https://dashboard.clerk.com/last-active?path=api-keys"
+		);
+	}
+	if (!isPublishableKey(key)) {
+		throw new Error("Publishable key not valid.");
+	}
+	const instanceType = key.startsWith(PUBLISHABLE_KEY_LIVE_PREFIX) ? "production" : "development";
+	const frontendApi = Buffer.from(key.split("_")[2], "base64").toString().slice(0, -1);
+	if (proxyUrl) {
+		return { instanceType, frontendApi: proxyUrl };
+	}
+	if (instanceType !== "development" && domain) {
+		return { instanceType, frontendApi: `clerk.${domain}` };
+	}
+	return { instanceType, frontendApi };
+};
+
+export {
+	AuthErrorReason,
+	Cookies,
+	QueryParameters,
+	RefreshTokenErrorReason,
+	buildHandshakeUrl,
+	isCrossOriginRequest,
+	isRequestEligibleForHandshake,
+	parsePublishableKey,
+	readSessionCookies,
+};
+export type { InstanceType, SessionCookies };
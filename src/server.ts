@@ -0,0 +1,306 @@
+/** @format */
+
+import { Elysia } from "elysia";
+import { ClerkAPIResponseError, createAPIError } from "./api";
+import type { JwtPayload } from "./jwt";
+import type { createOrganizationApi } from "./organizations";
+import type { createSessionApi, SessionStatus } from "./sessions";
+import type { createUserApi } from "./users";
+
+type BackendApiOptions = {
+	/**
+	 * Secret key callers have to send as `Authorization: Bearer <key>`. Any `sk_` key is
+	 * accepted when omitted.
+	 */
+	secretKey?: string;
+};
+
+type BackendApiHandlers = {
+	users: ReturnType<typeof createUserApi>;
+	organizations: ReturnType<typeof createOrganizationApi>;
+	sessions: ReturnType<typeof createSessionApi>;
+	loadJwks: () => Promise<unknown>;
+	verifyToken: (token: string) => Promise<JwtPayload>;
+	createToken: (sessionId: string, template?: string) => Promise<string>;
+};
+
+/**
+ * Respond with JSON the way the Backend API does. `@clerk/backend` only parses bodies whose
+ * content type is exactly `application/json`.
+ */
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+	new Response(JSON.stringify(body), {
+		status,
+		headers: { "content-type": "application/json", ...headers },
+	});
+
+/**
+ * The Backend API error response for an error the mocked client threw
+ */
+const errorResponse = (error: ClerkAPIResponseError) =>
+	json(
+		{
+			errors: error.errors.map(({ code, message, longMessage, meta }) => ({
+				code,
+				message,
+				long_message: longMessage,
+				meta,
+			})),
+		},
+		error.status,
+		error.retryAfter === undefined ? {} : { "retry-after": `${error.retryAfter}` }
+	);
+
+const respond = async (handler: () => Promise<unknown>) => {
+	try {
+		return json(await handler());
+	} catch (error) {
+		if (error instanceof ClerkAPIResponseError) {
+			return errorResponse(error);
+		}
+		throw error;
+	}
+};
+
+/**
+ * The JSON record behind a resource of the mocked client
+ */
+const raw = (resource: object) => (resource as { raw?: unknown }).raw;
+
+/**
+ * Read the query parameters of a request, keeping repeated ones like `user_id` as lists
+ */
+const readQuery = (request: Request) => {
+	const { searchParams } = new URL(request.url);
+	const list = (key: string) => (searchParams.has(key) ? searchParams.getAll(key) : undefined);
+	const number = (key: string) =>
+		searchParams.has(key) ? Number(searchParams.get(key)) : undefined;
+	const string = (key: string) => searchParams.get(key) ?? undefined;
+	return { list, number, string };
+};
+
+/**
+ * Serve the mocked Backend API over HTTP under `/v1`, for processes that use the real
+ * `@clerk/backend` SDK with its `apiUrl` pointed at the mock
+ */
+const createBackendApi = (handlers: BackendApiHandlers, options: BackendApiOptions = {}) => {
+	const { users, organizations, sessions } = handlers;
+
+	return new Elysia({
+		name: "elysia-clerk-mock-backend-api",
+		prefix: "/v1",
+		seed: options,
+	})
+		.onBeforeHandle(({ request }) => {
+			const secretKey = request.headers.get("Authorization")?.replace(/^Bearer /, "");
+			const valid = options.secretKey
+				? secretKey === options.secretKey
+				: secretKey?.startsWith("sk_");
+			if (!valid) {
+				return errorResponse(
+					createAPIError(
+						401,
+						"clerk_key_invalid",
+						"The provided Clerk Secret Key is invalid. Make sure that your Clerk Secret Key is correct."
+					)
+				);
+			}
+		})
+		.get("/jwks", () => respond(handlers.loadJwks))
+
+		.get("/users", ({ request }) => {
+			const { list, number, string } = readQuery(request);
+			return respond(async () => {
+				const { data } = await users.getUserList({
+					limit: number("limit"),
+					offset: number("offset"),
+					orderBy: string("order_by"),
+					userId: list("user_id"),
+					emailAddress: list("email_address"),
+					phoneNumber: list("phone_number"),
+					username: list("username"),
+					externalId: list("external_id"),
+					query: string("query"),
+				});
+				return data.map(raw);
+			});
+		})
+		.get("/users/count", ({ request }) => {
+			const { list, string } = readQuery(request);
+			return respond(async () => ({
+				object: "total_count",
+				total_count: await users.getCount({
+					userId: list("user_id"),
+					emailAddress: list("email_address"),
+					phoneNumber: list("phone_number"),
+					username: list("username"),
+					externalId: list("external_id"),
+					query: string("query"),
+				}),
+			}));
+		})
+		.get("/users/:userId", ({ params }) => respond(() => users.getUser(params.userId).then(raw)))
+		.patch("/users/:userId/metadata", ({ params, body }) => {
+			const metadata = (body ?? {}) as Record<string, Record<string, unknown> | undefined>;
+			return respond(() =>
+				users
+					.updateUserMetadata(params.userId, {
+						publicMetadata: metadata.public_metadata,
+						privateMetadata: metadata.private_metadata,
+						unsafeMetadata: metadata.unsafe_metadata,
+					})
+					.then(raw)
+			);
+		})
+		.delete("/users/:userId", ({ params }) =>
+			respond(async () => {
+				await users.deleteUser(params.userId);
+				return { object: "user", id: params.userId, deleted: true };
+			})
+		)
+		.post("/users/:userId/ban", ({ params }) =>
+			respond(() => users.banUser(params.userId).then(raw))
+		)
+		.post("/users/:userId/unban", ({ params }) =>
+			respond(() => users.unbanUser(params.userId).then(raw))
+		)
+
+		.get("/organizations", ({ request }) => {
+			const { list, number, string } = readQuery(request);
+			return respond(async () => {
+				const { data, totalCount } = await organizations.getOrganizationList({
+					limit: number("limit"),
+					offset: number("offset"),
+					organizationId: list("organization_id"),
+					query: string("query"),
+				});
+				return { data: data.map(raw), total_count: totalCount };
+			});
+		})
+		.post("/organizations", ({ body }) => {
+			const params = (body ?? {}) as Record<string, any>;
+			return respond(() =>
+				organizations
+					.createOrganization({
+						name: params.name,
+						slug: params.slug,
+						createdBy: params.created_by,
+						publicMetadata: params.public_metadata,
+						privateMetadata: params.private_metadata,
+						maxAllowedMemberships: params.max_allowed_memberships,
+					})
+					.then(raw)
+			);
+		})
+		.get("/organizations/:organizationId", ({ params: { organizationId } }) =>
+			// The Backend API looks organizations up by id or slug under the same path
+			respond(() =>
+				organizations
+					.getOrganization({ organizationId })
+					.catch((error) =>
+						error instanceof ClerkAPIResponseError && error.status === 404
+							? organizations.getOrganization({ slug: organizationId })
+							: Promise.reject(error)
+					)
+					.then(raw)
+			)
+		)
+		.get("/organizations/:organizationId/memberships", ({ params, request }) => {
+			const { number } = readQuery(request);
+			return respond(async () => {
+				const { data, totalCount } = await organizations.getOrganizationMembershipList({
+					organizationId: params.organizationId,
+					limit: number("limit"),
+					offset: number("offset"),
+				});
+				return { data: data.map(raw), total_count: totalCount };
+			});
+		})
+		.post("/organizations/:organizationId/memberships", ({ params, body }) => {
+			const { user_id, role } = (body ?? {}) as { user_id: string; role: string };
+			return respond(() =>
+				organizations
+					.createOrganizationMembership({
+						organizationId: params.organizationId,
+						userId: user_id,
+						role,
+					})
+					.then(raw)
+			);
+		})
+		.patch("/organizations/:organizationId/memberships/:userId", ({ params, body }) => {
+			const { role } = (body ?? {}) as { role: string };
+			return respond(() =>
+				organizations.updateOrganizationMembership({ ...params, role }).then(raw)
+			);
+		})
+		.patch("/organizations/:organizationId/memberships/:userId/metadata", ({ params, body }) => {
+			const metadata = (body ?? {}) as Record<string, Record<string, unknown> | undefined>;
+			return respond(() =>
+				organizations
+					.updateOrganizationMembershipMetadata({
+						...params,
+						publicMetadata: metadata.public_metadata,
+						privateMetadata: metadata.private_metadata,
+					})
+					.then(raw)
+			);
+		})
+		.delete("/organizations/:organizationId/memberships/:userId", ({ params }) =>
+			respond(() => organizations.deleteOrganizationMembership(params).then(raw))
+		)
+
+		.get("/sessions", ({ request }) => {
+			const { number, string } = readQuery(request);
+			return respond(async () => {
+				const { data, totalCount } = await sessions.getSessionList({
+					limit: number("limit"),
+					offset: number("offset"),
+					userId: string("user_id"),
+					clientId: string("client_id"),
+					status: string("status") as SessionStatus | undefined,
+				});
+				// Only paginated requests get the total, like the Backend API
+				return string("paginated") === "true"
+					? { data: data.map(raw), total_count: totalCount }
+					: data.map(raw);
+			});
+		})
+		.get("/sessions/:sessionId", ({ params }) =>
+			respond(() => sessions.getSession(params.sessionId).then(raw))
+		)
+		.post("/sessions/:sessionId/revoke", ({ params }) =>
+			respond(() => sessions.revokeSession(params.sessionId).then(raw))
+		)
+		.post("/sessions/:sessionId/verify", ({ params, body }) => {
+			const { token } = (body ?? {}) as { token?: string };
+			return respond(async () => {
+				const session = await sessions.getSession(params.sessionId);
+				const claims = await handlers.verifyToken(token ?? "");
+				if (claims.sid !== session.id || session.status !== "active") {
+					throw createAPIError(
+						400,
+						"session_token_invalid",
+						"invalid session token",
+						`The token doesn't belong to an active session ${session.id}`
+					);
+				}
+				return raw(session);
+			});
+		})
+		.post("/sessions/:sessionId/tokens", ({ params }) =>
+			respond(async () => ({
+				object: "token",
+				jwt: await handlers.createToken(params.sessionId),
+			}))
+		)
+		.post("/sessions/:sessionId/tokens/:template", ({ params }) =>
+			respond(async () => ({
+				object: "token",
+				jwt: await handlers.createToken(params.sessionId, params.template),
+			}))
+		);
+};
+
+export { createBackendApi, errorResponse, respond };
+export type { BackendApiOptions };
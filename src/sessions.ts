@@ -0,0 +1,205 @@
+/** @format */
+
+import type { Session, SessionJSON } from "@clerk/backend";
+import { createId, notFound, paginate, type PaginationParams } from "./api";
+import type { MockClock } from "./clock";
+
+type SessionStatus = "active" | "ended" | "expired" | "removed" | "revoked" | "abandoned";
+
+type SessionListParams = PaginationParams & {
+	userId?: string;
+	clientId?: string;
+	status?: SessionStatus;
+};
+
+/**
+ * When a session last verified its first and second factor, `null` if it has no second factor
+ */
+type FactorVerificationTimes = { firstFactor: number; secondFactor: number | null };
+
+// Clerk's default maximum session lifetime and inactivity timeout
+const SESSION_LIFETIME_IN_MS = 7 * 24 * 60 * 60 * 1000;
+const SESSION_INACTIVITY_IN_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * In-memory sessions backing the mocked `clerkClient.sessions` API. Sessions expire
+ * against the mock clock, so their status is evaluated whenever one is read.
+ */
+class SessionStore {
+	private sessions = new Map<string, SessionJSON>();
+	private factorVerifications = new Map<string, FactorVerificationTimes>();
+	private clock: MockClock;
+
+	constructor(clock: MockClock) {
+		this.clock = clock;
+	}
+
+	/**
+	 * Make sure a record exists for a session handed out by the auth mock
+	 */
+	ensure(
+		sessionId: string,
+		userId: string,
+		actor?: Record<string, unknown>,
+		organizationId?: string | null
+	) {
+		if (this.sessions.has(sessionId)) {
+			return;
+		}
+		const now = this.clock.now();
+		this.sessions.set(sessionId, {
+			object: "session",
+			id: sessionId,
+			client_id: createId("client"),
+			user_id: userId,
+			status: "active",
+			actor: actor ?? null,
+			last_active_organization_id: organizationId ?? undefined,
+			last_active_at: now,
+			expire_at: now + SESSION_LIFETIME_IN_MS,
+			abandon_at: now + SESSION_INACTIVITY_IN_MS,
+			created_at: now,
+			updated_at: now,
+		});
+	}
+
+	find(sessionId: string) {
+		const data = this.sessions.get(sessionId);
+		if (!data || data.status !== "active") {
+			return data;
+		}
+		const now = this.clock.now();
+		if (now >= data.expire_at) {
+			return this.setStatus(sessionId, "expired", data.expire_at);
+		}
+		if (now >= data.abandon_at) {
+			return this.setStatus(sessionId, "abandoned", data.abandon_at);
+		}
+		return data;
+	}
+
+	get(sessionId: string) {
+		const data = this.find(sessionId);
+		if (!data) {
+			throw notFound("Session", sessionId);
+		}
+		return data;
+	}
+
+	list() {
+		return [...this.sessions.keys()].map((sessionId) => this.get(sessionId));
+	}
+
+	/**
+	 * Whether requests and `getToken()` can still use the session. Sessions the store
+	 * doesn't know, like those of verified tokens signed elsewhere, count as active.
+	 */
+	isActive(sessionId: string) {
+		const data = this.find(sessionId);
+		return !data || data.status === "active";
+	}
+
+	setStatus(sessionId: string, status: SessionStatus, at = this.clock.now()) {
+		const existing = this.sessions.get(sessionId);
+		if (!existing) {
+			throw notFound("Session", sessionId);
+		}
+		const data = { ...existing, status, updated_at: at };
+		this.sessions.set(sessionId, data);
+		return data;
+	}
+
+	/**
+	 * Record the organization a session switched to, `null` for the personal account
+	 */
+	setActiveOrganization(sessionId: string, organizationId: string | null) {
+		const data = this.sessions.get(sessionId);
+		if (!data || (data.last_active_organization_id ?? null) === organizationId) {
+			return;
+		}
+		this.sessions.set(sessionId, {
+			...data,
+			last_active_organization_id: organizationId ?? undefined,
+			updated_at: this.clock.now(),
+		});
+	}
+
+	verifyFactors(sessionId: string, times: FactorVerificationTimes) {
+		this.factorVerifications.set(sessionId, times);
+	}
+
+	/**
+	 * Minutes since the session verified each factor, as Clerk's `fva` claim reports them,
+	 * with -1 for a missing second factor. `null` until factors were verified.
+	 */
+	factorVerificationAge(sessionId: string): [number, number] | null {
+		const times = this.factorVerifications.get(sessionId);
+		if (!times) {
+			return null;
+		}
+		const minutesSince = (time: number | null) =>
+			time === null ? -1 : Math.floor((this.clock.now() - time) / (60 * 1000));
+		return [minutesSince(times.firstFactor), minutesSince(times.secondFactor)];
+	}
+
+	clear() {
+		this.sessions.clear();
+		this.factorVerifications.clear();
+	}
+}
+
+/**
+ * Convert a stored session to the camelCase shape of `@clerk/backend`'s `Session`, keeping
+ * the record as `raw` like the mocked users and organizations
+ */
+const toSession = (data: SessionJSON) =>
+	({
+		id: data.id,
+		clientId: data.client_id,
+		userId: data.user_id,
+		status: data.status,
+		lastActiveAt: data.last_active_at,
+		expireAt: data.expire_at,
+		abandonAt: data.abandon_at,
+		createdAt: data.created_at,
+		updatedAt: data.updated_at,
+		lastActiveOrganizationId: data.last_active_organization_id,
+		actor: data.actor,
+		raw: data,
+	}) as Session;
+
+/**
+ * Build the `sessions` namespace of the mocked Clerk client on top of a store
+ */
+const createSessionApi = (store: SessionStore) => ({
+	getSession: async (sessionId: string) => toSession(store.get(sessionId)),
+
+	getSessionList: async (params: SessionListParams = {}) => {
+		const { userId, clientId, status } = params;
+		const sessions = store
+			.list()
+			.filter(
+				(data) =>
+					(!userId || data.user_id === userId) &&
+					(!clientId || data.client_id === clientId) &&
+					(!status || data.status === status)
+			)
+			.sort((a, b) => b.created_at - a.created_at);
+		const { data, totalCount } = paginate(sessions, params);
+		return { data: data.map(toSession), totalCount };
+	},
+
+	revokeSession: async (sessionId: string) => {
+		store.get(sessionId);
+		return toSession(store.setStatus(sessionId, "revoked"));
+	},
+});
+
+export {
+	SESSION_INACTIVITY_IN_MS,
+	SESSION_LIFETIME_IN_MS,
+	SessionStore,
+	createSessionApi,
+	toSession,
+};
+export type { SessionListParams, SessionStatus };
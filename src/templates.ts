@@ -0,0 +1,89 @@
+/** @format */
+
+import { isPlainObject } from "./api";
+import type { Duration } from "./clock";
+
+/**
+ * Claims whose string values may contain shortcodes such as `{{user.public_metadata.tenant}}`,
+ * resolved against the user, organization and session a token is minted for
+ */
+type ClaimsTemplate = Record<string, unknown>;
+
+/**
+ * A JWT template, minted with `getToken({ template })`
+ */
+type JwtTemplate = {
+	claims: ClaimsTemplate;
+	/**
+	 * How long tokens of the template are valid, 60 seconds by default
+	 */
+	lifetime?: Duration;
+};
+
+/**
+ * Values shortcodes are resolved against: `user`, `org` and `session`
+ */
+type TemplateContext = Record<string, unknown>;
+
+const SHORTCODE = /{{\s*(.+?)\s*}}/g;
+const WHOLE_SHORTCODE = /^{{\s*(.+?)\s*}}$/;
+const QUOTED = /^(['"])(.*)\1$/;
+
+const lookup = (path: string, context: TemplateContext) =>
+	path
+		.split(".")
+		.reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), context);
+
+/**
+ * Evaluate a shortcode like `user.public_metadata.tier || 'free'`, taking the first
+ * alternative that is set. Missing values resolve to `null`, like Clerk does.
+ */
+const evaluate = (expression: string, context: TemplateContext) => {
+	for (const alternative of expression.split("||").map((part) => part.trim())) {
+		const quoted = QUOTED.exec(alternative);
+		const value = quoted ? quoted[2] : lookup(alternative, context);
+		if (value !== undefined && value !== null && value !== "") {
+			return value;
+		}
+	}
+	return null;
+};
+
+const resolveValue = (value: unknown, context: TemplateContext): unknown => {
+	if (typeof value === "string") {
+		// A claim that is a single shortcode keeps the type of the value, e.g. an object
+		const whole = WHOLE_SHORTCODE.exec(value);
+		if (whole) {
+			return evaluate(whole[1], context);
+		}
+		return value.replace(SHORTCODE, (_, expression: string) => {
+			const resolved = evaluate(expression, context);
+			if (resolved === null) {
+				return "";
+			}
+			return typeof resolved === "object" ? JSON.stringify(resolved) : String(resolved);
+		});
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry) => resolveValue(entry, context));
+	}
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, resolveValue(entry, context)])
+		);
+	}
+	return value;
+};
+
+/**
+ * Resolve the shortcodes of a claims template. Claims that resolve to `null` are left out.
+ */
+const resolveClaims = (template: ClaimsTemplate, context: TemplateContext) =>
+	Object.fromEntries(
+		Object.entries(template)
+			.map(([key, value]) => [key, resolveValue(value, context)] as const)
+			.filter(([, value]) => value !== null)
+	);
+
+export { resolveClaims };
+export type { ClaimsTemplate, JwtTemplate, TemplateContext };
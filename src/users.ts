@@ -0,0 +1,342 @@
+/** @format */
+
+import type {
+	EmailAddressJSON,
+	PhoneNumberJSON,
+	User,
+	UserJSON,
+	VerificationJSON,
+} from "@clerk/backend";
+import { createId, mergeMetadata, notFound, paginate, type PaginationParams } from "./api";
+import type { MockClock } from "./clock";
+
+/**
+ * Friendlier camelCase input used to seed user records
+ */
+type UserFixture = {
+	id?: string;
+	externalId?: string | null;
+	username?: string | null;
+	firstName?: string | null;
+	lastName?: string | null;
+	imageUrl?: string;
+	emailAddresses?: string[];
+	phoneNumbers?: string[];
+	publicMetadata?: Record<string, unknown>;
+	privateMetadata?: Record<string, unknown>;
+	unsafeMetadata?: Record<string, unknown>;
+	banned?: boolean;
+	locked?: boolean;
+	createdAt?: number;
+	lastSignInAt?: number | null;
+	lastActiveAt?: number | null;
+};
+
+/**
+ * Subset of `clerkClient.users.getUserList()` parameters the mock understands
+ */
+type UserListParams = PaginationParams & {
+	userId?: string[];
+	emailAddress?: string[];
+	phoneNumber?: string[];
+	username?: string[];
+	externalId?: string[];
+	query?: string;
+	orderBy?: string;
+};
+
+type UserMetadataParams = {
+	publicMetadata?: Record<string, unknown>;
+	privateMetadata?: Record<string, unknown>;
+	unsafeMetadata?: Record<string, unknown>;
+};
+
+const verified = (strategy: string) =>
+	({ status: "verified", strategy, attempts: null, expire_at: null }) as VerificationJSON;
+
+const toUserJSON = (fixture: UserFixture, now: number): UserJSON => {
+	const emailAddresses: EmailAddressJSON[] = (fixture.emailAddresses ?? []).map((emailAddress) => ({
+		object: "email_address",
+		id: createId("idn"),
+		email_address: emailAddress,
+		verification: verified("email_code"),
+		linked_to: [],
+	}));
+	const phoneNumbers: PhoneNumberJSON[] = (fixture.phoneNumbers ?? []).map((phoneNumber) => ({
+		object: "phone_number",
+		id: createId("idn"),
+		phone_number: phoneNumber,
+		reserved_for_second_factor: false,
+		default_second_factor: false,
+		reserved: false,
+		verification: verified("phone_code"),
+		linked_to: [],
+		backup_codes: [],
+	}));
+	const imageUrl = fixture.imageUrl ?? "https://img.clerk.com/default";
+
+	return {
+		object: "user",
+		id: fixture.id ?? createId("user"),
+		username: fixture.username ?? null,
+		first_name: fixture.firstName ?? null,
+		last_name: fixture.lastName ?? null,
+		image_url: imageUrl,
+		has_image: fixture.imageUrl !== undefined,
+		primary_email_address_id: emailAddresses[0]?.id ?? null,
+		primary_phone_number_id: phoneNumbers[0]?.id ?? null,
+		primary_web3_wallet_id: null,
+		password_enabled: false,
+		two_factor_enabled: false,
+		totp_enabled: false,
+		backup_code_enabled: false,
+		email_addresses: emailAddresses,
+		phone_numbers: phoneNumbers,
+		web3_wallets: [],
+		organization_memberships: null,
+		external_accounts: [],
+		saml_accounts: [],
+		password_last_updated_at: null,
+		public_metadata: fixture.publicMetadata ?? {},
+		private_metadata: fixture.privateMetadata ?? {},
+		unsafe_metadata: fixture.unsafeMetadata ?? {},
+		external_id: fixture.externalId ?? null,
+		last_sign_in_at: fixture.lastSignInAt ?? null,
+		banned: fixture.banned ?? false,
+		locked: fixture.locked ?? false,
+		lockout_expires_in_seconds: null,
+		verification_attempts_remaining: null,
+		created_at: fixture.createdAt ?? now,
+		updated_at: fixture.createdAt ?? now,
+		last_active_at: fixture.lastActiveAt ?? null,
+		create_organization_enabled: true,
+		create_organizations_limit: null,
+		delete_self_enabled: true,
+		legal_accepted_at: null,
+	};
+};
+
+const toVerification = (data: VerificationJSON | null) =>
+	data && {
+		status: data.status,
+		strategy: data.strategy,
+		externalVerificationRedirectURL: null,
+		attempts: data.attempts,
+		expireAt: data.expire_at,
+		nonce: null,
+		message: null,
+	};
+
+/**
+ * Convert a stored record to the camelCase shape of `@clerk/backend`'s `User`
+ */
+const toUser = (data: UserJSON) => {
+	const emailAddresses = data.email_addresses.map((emailAddress) => ({
+		id: emailAddress.id,
+		emailAddress: emailAddress.email_address,
+		verification: toVerification(emailAddress.verification),
+		linkedTo: [],
+	}));
+	const phoneNumbers = data.phone_numbers.map((phoneNumber) => ({
+		id: phoneNumber.id,
+		phoneNumber: phoneNumber.phone_number,
+		reservedForSecondFactor: phoneNumber.reserved_for_second_factor,
+		defaultSecondFactor: phoneNumber.default_second_factor,
+		verification: toVerification(phoneNumber.verification),
+		linkedTo: [],
+	}));
+
+	// `User` declares a private field, so a plain object can only be asserted to it
+	return {
+		id: data.id,
+		passwordEnabled: data.password_enabled,
+		totpEnabled: data.totp_enabled,
+		backupCodeEnabled: data.backup_code_enabled,
+		twoFactorEnabled: data.two_factor_enabled,
+		banned: data.banned,
+		locked: data.locked,
+		createdAt: data.created_at,
+		updatedAt: data.updated_at,
+		imageUrl: data.image_url,
+		hasImage: data.has_image,
+		primaryEmailAddressId: data.primary_email_address_id,
+		primaryPhoneNumberId: data.primary_phone_number_id,
+		primaryWeb3WalletId: data.primary_web3_wallet_id,
+		lastSignInAt: data.last_sign_in_at,
+		externalId: data.external_id,
+		username: data.username,
+		firstName: data.first_name,
+		lastName: data.last_name,
+		publicMetadata: data.public_metadata,
+		privateMetadata: data.private_metadata,
+		unsafeMetadata: data.unsafe_metadata,
+		emailAddresses,
+		phoneNumbers,
+		web3Wallets: [],
+		externalAccounts: [],
+		samlAccounts: [],
+		lastActiveAt: data.last_active_at,
+		createOrganizationEnabled: data.create_organization_enabled,
+		createOrganizationsLimit: data.create_organizations_limit,
+		deleteSelfEnabled: data.delete_self_enabled,
+		legalAcceptedAt: data.legal_accepted_at,
+		raw: data,
+		primaryEmailAddress:
+			emailAddresses.find(({ id }) => id === data.primary_email_address_id) ?? null,
+		primaryPhoneNumber: phoneNumbers.find(({ id }) => id === data.primary_phone_number_id) ?? null,
+		primaryWeb3Wallet: null,
+		fullName: [data.first_name, data.last_name].join(" ").trim() || null,
+	} as unknown as User;
+};
+
+const matchesQuery = (data: UserJSON, query: string) => {
+	const needle = query.toLowerCase();
+	return [
+		data.id,
+		data.username,
+		data.first_name,
+		data.last_name,
+		data.external_id,
+		...data.email_addresses.map(({ email_address }) => email_address),
+		...data.phone_numbers.map(({ phone_number }) => phone_number),
+	].some((value) => value?.toLowerCase().includes(needle));
+};
+
+/**
+ * Sort records by a Backend API `orderBy` value such as "-created_at" or "+username"
+ */
+const compareBy = (orderBy: string) => {
+	const direction = orderBy.startsWith("-") ? -1 : 1;
+	const field = orderBy.replace(/^[+-]/, "") as keyof UserJSON;
+	return (a: UserJSON, b: UserJSON) => {
+		const left = a[field] as string | number | null;
+		const right = b[field] as string | number | null;
+		if (left === right) {
+			return 0;
+		}
+		if (left === null) {
+			return 1;
+		}
+		if (right === null) {
+			return -1;
+		}
+		return left < right ? -direction : direction;
+	};
+};
+
+const filterUsers = (
+	users: UserJSON[],
+	{ userId, emailAddress, phoneNumber, username, externalId, query }: UserListParams
+) =>
+	users.filter(
+		(data) =>
+			(!userId?.length || userId.includes(data.id)) &&
+			(!emailAddress?.length ||
+				data.email_addresses.some(({ email_address }) => emailAddress.includes(email_address))) &&
+			(!phoneNumber?.length ||
+				data.phone_numbers.some(({ phone_number }) => phoneNumber.includes(phone_number))) &&
+			(!username?.length || (!!data.username && username.includes(data.username))) &&
+			(!externalId?.length || (!!data.external_id && externalId.includes(data.external_id))) &&
+			(!query || matchesQuery(data, query))
+	);
+
+/**
+ * In-memory user records backing the mocked `clerkClient.users` API
+ */
+class UserStore {
+	private users = new Map<string, UserJSON>();
+	private clock: MockClock;
+
+	constructor(clock: MockClock) {
+		this.clock = clock;
+	}
+
+	/**
+	 * Add or replace user records
+	 */
+	seed(fixtures: UserFixture[]) {
+		return fixtures.map((fixture) => {
+			const data = toUserJSON(fixture, this.clock.now());
+			this.users.set(data.id, data);
+			return data;
+		});
+	}
+
+	/**
+	 * Make sure a record exists for a user id handed out by the auth mock
+	 */
+	ensure(userId: string) {
+		if (!this.users.has(userId)) {
+			this.seed([{ id: userId }]);
+		}
+	}
+
+	find(userId: string) {
+		return this.users.get(userId);
+	}
+
+	get(userId: string) {
+		const data = this.find(userId);
+		if (!data) {
+			throw notFound("User", userId);
+		}
+		return data;
+	}
+
+	list() {
+		return [...this.users.values()];
+	}
+
+	update(userId: string, changes: Partial<UserJSON>) {
+		const data = { ...this.get(userId), ...changes, updated_at: this.clock.now() };
+		this.users.set(userId, data);
+		return data;
+	}
+
+	delete(userId: string) {
+		const data = this.get(userId);
+		this.users.delete(userId);
+		return data;
+	}
+
+	clear() {
+		this.users.clear();
+	}
+}
+
+/**
+ * Build the `users` namespace of the mocked Clerk client on top of a store
+ */
+const createUserApi = (store: UserStore) => ({
+	getUser: async (userId: string) => toUser(store.get(userId)),
+
+	getUserList: async (params: UserListParams = {}) => {
+		const users = filterUsers(store.list(), params).sort(
+			compareBy(params.orderBy ?? "-created_at")
+		);
+		const { data, totalCount } = paginate(users, params);
+		return { data: data.map(toUser), totalCount };
+	},
+
+	getCount: async (params: UserListParams = {}) => filterUsers(store.list(), params).length,
+
+	updateUserMetadata: async (userId: string, params: UserMetadataParams) => {
+		const data = store.get(userId);
+		return toUser(
+			store.update(userId, {
+				public_metadata: mergeMetadata(data.public_metadata, params.publicMetadata),
+				private_metadata: mergeMetadata(data.private_metadata, params.privateMetadata),
+				unsafe_metadata: mergeMetadata(data.unsafe_metadata, params.unsafeMetadata),
+			})
+		);
+	},
+
+	deleteUser: async (userId: string) => toUser(store.delete(userId)),
+
+	banUser: async (userId: string) => toUser(store.update(userId, { banned: true })),
+
+	unbanUser: async (userId: string) => toUser(store.update(userId, { banned: false })),
+});
+
+export { UserStore, createUserApi, toUser };
+export type { UserFixture, UserListParams, UserMetadataParams };
@@ -0,0 +1,104 @@
+/** @format */
+
+/**
+ * The parts of an auth object Clerk keeps consistent for signed in and signed out sessions
+ */
+type AuthState = {
+	userId: string | null;
+	sessionId: string | null;
+	sessionClaims: Record<string, unknown> | null;
+	actor: unknown;
+	orgId: string | null | undefined;
+	orgRole: string | null | undefined;
+	orgSlug: string | null | undefined;
+	orgPermissions: string[] | null | undefined;
+	factorVerificationAge: [number, number] | null;
+};
+
+const isSet = (value: unknown) => value !== null && value !== undefined;
+
+const validateSignedOut = (state: AuthState) => {
+	const present = (
+		[
+			"sessionId",
+			"sessionClaims",
+			"actor",
+			"orgId",
+			"orgRole",
+			"orgSlug",
+			"orgPermissions",
+		] as const
+	).filter((field) => isSet(state[field]));
+	return present.map((field) => `${field} must be null when userId is null`);
+};
+
+const validateSignedIn = (state: AuthState) => {
+	const problems: string[] = [];
+	const claims = state.sessionClaims;
+
+	if (typeof state.sessionId !== "string" || !state.sessionId) {
+		problems.push("a signed in user needs a sessionId");
+	}
+	if (!claims) {
+		return [...problems, "a signed in user needs sessionClaims"];
+	}
+	if (claims.sub !== state.userId) {
+		problems.push(`sessionClaims.sub (${claims.sub}) must match userId (${state.userId})`);
+	}
+	if (claims.sid !== state.sessionId) {
+		problems.push(`sessionClaims.sid (${claims.sid}) must match sessionId (${state.sessionId})`);
+	}
+	if (typeof claims.iss !== "string") {
+		problems.push("sessionClaims.iss must be a string");
+	}
+	for (const claim of ["iat", "nbf", "exp"]) {
+		if (typeof claims[claim] !== "number") {
+			problems.push(`sessionClaims.${claim} must be a number`);
+		}
+	}
+	const { iat, nbf, exp } = claims as Record<string, number>;
+	if (exp && iat && exp <= iat) {
+		problems.push("sessionClaims.exp must be after sessionClaims.iat");
+	}
+	if (exp && nbf && exp <= nbf) {
+		problems.push("sessionClaims.exp must be after sessionClaims.nbf");
+	}
+
+	if (!isSet(state.orgId)) {
+		for (const field of ["orgRole", "orgSlug", "orgPermissions"] as const) {
+			if (isSet(state[field])) {
+				problems.push(`${field} requires an orgId`);
+			}
+		}
+	} else if (!state.orgRole) {
+		problems.push("an active organization (orgId) needs an orgRole");
+	}
+
+	if (isSet(state.actor)) {
+		const { sub } = state.actor as { sub?: unknown };
+		if (typeof sub !== "string") {
+			problems.push("actor.sub must identify the impersonating user");
+		} else if (sub === state.userId) {
+			problems.push(`${sub} can't impersonate themselves`);
+		}
+	}
+	if (
+		state.factorVerificationAge !== null &&
+		(!Array.isArray(state.factorVerificationAge) ||
+			state.factorVerificationAge.length !== 2 ||
+			state.factorVerificationAge.some((age) => typeof age !== "number"))
+	) {
+		problems.push("factorVerificationAge must be null or [firstFactorAge, secondFactorAge]");
+	}
+	return problems;
+};
+
+/**
+ * Check an auth state against the invariants Clerk's signed in and signed out auth objects
+ * hold, returning a description of every violation
+ */
+const validateAuthState = (state: AuthState) =>
+	state.userId === null ? validateSignedOut(state) : validateSignedIn(state);
+
+export { validateAuthState };
+export type { AuthState };
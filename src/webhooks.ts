@@ -0,0 +1,221 @@
+/** @format */
+
+import { createHmac, randomBytes } from "node:crypto";
+import type { WebhookEvent, WebhookEventType } from "@clerk/backend";
+import { createId, isPlainObject } from "./api";
+import type { MockClock } from "./clock";
+import type { OrganizationStore } from "./organizations";
+import { SESSION_INACTIVITY_IN_MS, SESSION_LIFETIME_IN_MS, type SessionStore } from "./sessions";
+import type { UserStore } from "./users";
+
+type WebhookSignatureOptions = {
+	/**
+	 * Value of the `svix-id` header, generated when omitted
+	 */
+	id?: string;
+	/**
+	 * Time the event is signed at, defaults to now
+	 */
+	timestamp?: Date;
+	/**
+	 * Sign with an outdated timestamp that falls outside Svix's 5 minute tolerance
+	 */
+	expired?: boolean;
+	/**
+	 * Sign a different payload than the one that is sent, so verification fails
+	 */
+	tampered?: boolean;
+	/**
+	 * Sign with another secret than the configured one
+	 */
+	secret?: string;
+};
+
+type SvixHeaders = {
+	"svix-id": string;
+	"svix-timestamp": string;
+	"svix-signature": string;
+};
+
+type BuiltWebhook = {
+	payload: WebhookEvent;
+	body: string;
+	headers: SvixHeaders;
+};
+
+/**
+ * The mocked identity events fall back to when their data doesn't name a record
+ */
+type WebhookIdentity = {
+	sessionId: string | null;
+	userId: string | null;
+	orgId: string | null | undefined;
+	actor?: unknown;
+};
+
+// Svix rejects messages whose timestamp is more than 5 minutes off
+const SVIX_TOLERANCE_IN_SECONDS = 5 * 60;
+
+const SESSION_STATUS: Record<string, string> = {
+	"session.created": "active",
+	"session.ended": "ended",
+	"session.removed": "removed",
+	"session.revoked": "revoked",
+};
+
+/**
+ * Merge event data over a stored record, so nested references like
+ * `{ organization: { id } }` keep the rest of the record
+ */
+const mergeData = (record: Record<string, any> | undefined, data: Record<string, any>) => {
+	const merged: Record<string, any> = { ...record };
+	for (const [key, value] of Object.entries(data)) {
+		merged[key] =
+			isPlainObject(value) && isPlainObject(merged[key]) ? mergeData(merged[key], value) : value;
+	}
+	return merged;
+};
+
+const createWebhookSecret = () => `whsec_${randomBytes(24).toString("base64")}`;
+
+/**
+ * Sign a payload the way Svix does: an HMAC-SHA256 over `<id>.<timestamp>.<body>`
+ * keyed with the base64 part of the `whsec_` secret
+ */
+const signWebhook = (body: string, secret: string, id: string, timestamp: Date): SvixHeaders => {
+	const seconds = Math.floor(timestamp.getTime() / 1000);
+	const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+	const signature = createHmac("sha256", key).update(`${id}.${seconds}.${body}`).digest("base64");
+	return {
+		"svix-id": id,
+		"svix-timestamp": `${seconds}`,
+		"svix-signature": `v1,${signature}`,
+	};
+};
+
+/**
+ * Build webhook events and their Svix headers, filling in the event data from the mock's
+ * user and organization stores so webhook and API state agree
+ */
+const createWebhooks = ({
+	secret,
+	users,
+	organizations,
+	sessions,
+	clock,
+	currentIdentity,
+}: {
+	secret: string;
+	users: UserStore;
+	organizations: OrganizationStore;
+	sessions: SessionStore;
+	clock: MockClock;
+	currentIdentity: () => WebhookIdentity;
+}) => {
+	/**
+	 * Look up the record an event refers to and merge the given data over it.
+	 * Users and organizations are referenced by `id`, memberships by `organization.id`
+	 * and `public_user_data.user_id`, each defaulting to the current mock identity.
+	 */
+	const resolveData = (type: WebhookEventType, data: Record<string, any>) => {
+		const [resource, action] = type.split(".");
+		const { sessionId, userId, orgId, actor } = currentIdentity();
+
+		if (resource === "user") {
+			const id = data.id ?? userId;
+			return action === "deleted"
+				? { object: "user", id, deleted: true, ...data }
+				: mergeData(users.find(id), data);
+		}
+		if (resource === "organization") {
+			const id = data.id ?? orgId;
+			const organization = organizations.list().find((record) => record.id === id);
+			return action === "deleted"
+				? { object: "organization", id, slug: organization?.slug, deleted: true, ...data }
+				: mergeData(organization && organizations.toOrganizationJSON(organization), data);
+		}
+		if (resource === "organizationMembership") {
+			const membership = organizations.findMembership(
+				data.organization?.id ?? orgId,
+				data.public_user_data?.user_id ?? userId
+			);
+			return mergeData(membership && organizations.toMembershipJSON(membership), data);
+		}
+		if (resource === "session") {
+			const id = data.id ?? sessionId ?? createId("sess");
+			const session = sessions.find(id);
+			const now = clock.now();
+			return mergeData(
+				session ?? {
+					object: "session",
+					id,
+					client_id: createId("client"),
+					user_id: userId,
+					actor: actor ?? null,
+					last_active_at: now,
+					expire_at: now + SESSION_LIFETIME_IN_MS,
+					abandon_at: now + SESSION_INACTIVITY_IN_MS,
+					created_at: now,
+					updated_at: now,
+				},
+				{ status: SESSION_STATUS[type], ...data }
+			);
+		}
+		return data;
+	};
+
+	const build = (
+		type: WebhookEventType,
+		data: Record<string, any> = {},
+		options: WebhookSignatureOptions = {}
+	): BuiltWebhook => {
+		// Clerk's events also carry a millisecond `timestamp`, which `WebhookEvent` doesn't declare
+		const payload = {
+			data: resolveData(type, data) as WebhookEvent["data"],
+			object: "event",
+			type,
+			timestamp: clock.now(),
+		} as WebhookEvent;
+		const body = JSON.stringify(payload);
+
+		// Svix checks signature timestamps against the system time, not the mock clock
+		const timestamp = options.expired
+			? new Date(Date.now() - (SVIX_TOLERANCE_IN_SECONDS + 60) * 1000)
+			: (options.timestamp ?? new Date());
+		const signedBody = options.tampered
+			? JSON.stringify({ ...payload, type: `${type}.tampered` })
+			: body;
+		const headers = signWebhook(
+			signedBody,
+			options.secret ?? secret,
+			options.id ?? createId("msg"),
+			timestamp
+		);
+		return { payload, body, headers };
+	};
+
+	return {
+		secret,
+		build,
+
+		/**
+		 * Build a webhook as a POST request to the given URL, ready for `app.handle()`
+		 */
+		request: (
+			url: string,
+			type: WebhookEventType,
+			data?: Record<string, any>,
+			options?: WebhookSignatureOptions
+		) => {
+			const { body, headers } = build(type, data, options);
+			return new Request(url, {
+				method: "POST",
+				headers: { ...headers, "content-type": "application/json" },
+				body,
+			});
+		},
+	};
+};
+
+export { createWebhookSecret, createWebhooks, signWebhook };
+export type { BuiltWebhook, SvixHeaders, WebhookSignatureOptions };
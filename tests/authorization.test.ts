@@ -0,0 +1,91 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import {
+	createCheckAuthorization,
+	isReverificationHint,
+	reverificationError,
+	reverificationErrorResponse,
+	type AuthorizationState,
+} from "../src/authorization";
+
+const signedIn: AuthorizationState = {
+	userId: "user_123",
+	orgId: "org_123",
+	orgRole: "org:admin",
+	orgPermissions: ["org:invoices:read"],
+	factorVerificationAge: null,
+	sessionClaims: {},
+};
+
+describe("createCheckAuthorization", () => {
+	it("should evaluate roles and permissions of the active organization", () => {
+		const has = createCheckAuthorization(signedIn);
+
+		expect(has({ role: "org:admin" })).toBe(true);
+		expect(has({ role: "org:member" })).toBe(false);
+		expect(has({ permission: "org:invoices:read" })).toBe(true);
+		expect(has({ permission: "org:invoices:write" })).toBe(false);
+	});
+
+	it("should deny role checks without an active organization", () => {
+		const has = createCheckAuthorization({ ...signedIn, orgId: undefined });
+
+		expect(has({ role: "org:admin" })).toBe(false);
+	});
+
+	it("should always deny signed out users", () => {
+		const has = createCheckAuthorization({
+			...signedIn,
+			userId: null,
+		});
+
+		expect(has({ role: "org:admin" })).toBe(false);
+	});
+
+	it("should evaluate features and plans from the fea and pla claims", () => {
+		const has = createCheckAuthorization({
+			...signedIn,
+			sessionClaims: { fea: "o:reports,u:export_csv", pla: "o:pro" },
+		});
+
+		expect(has({ feature: "export_csv" })).toBe(true);
+		expect(has({ feature: "user:export_csv" })).toBe(true);
+		expect(has({ feature: "org:export_csv" })).toBe(false);
+		expect(has({ feature: "org:reports" })).toBe(true);
+		expect(has({ plan: "pro" })).toBe(true);
+		expect(has({ plan: "enterprise" })).toBe(false);
+	});
+
+	it("should evaluate reverification against the factor verification age", () => {
+		const has = createCheckAuthorization({
+			...signedIn,
+			factorVerificationAge: [30, 30],
+		});
+
+		expect(has({ reverification: "strict" })).toBe(false);
+		expect(has({ reverification: "moderate" })).toBe(true);
+		expect(has({ reverification: { level: "first_factor", afterMinutes: 15 } })).toBe(false);
+		expect(has({ role: "org:admin", reverification: "moderate" })).toBe(true);
+		expect(has({ role: "org:admin", reverification: "strict" })).toBe(false);
+	});
+});
+
+describe("reverificationError", () => {
+	it("should build the hint Clerk's frontend SDK reverifies on", async () => {
+		const hint = {
+			clerk_error: {
+				type: "forbidden",
+				reason: "reverification-error",
+				metadata: { reverification: "strict" },
+			},
+		};
+		expect(reverificationError("strict")).toEqual(hint as ReturnType<typeof reverificationError>);
+		expect(isReverificationHint(hint)).toBe(true);
+		expect(isReverificationHint({ clerk_error: { type: "forbidden" } })).toBe(false);
+
+		const response = reverificationErrorResponse("strict");
+		expect(response.status).toBe(403);
+		expect(await response.json()).toEqual(hint);
+	});
+});
@@ -0,0 +1,80 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { Elysia } from "elysia";
+import { createClerkMock } from "../index";
+import { request } from "./helpers";
+
+describe("Billing", () => {
+	const createApp = () => {
+		const clerkMock = createClerkMock(undefined, {
+			plans: { free: ["dashboard"], pro: ["dashboard", "export_csv"], team: ["reports"] },
+			subscriptions: { user_admin: "free" },
+		});
+		clerkMock.mockAdmin();
+		const app = new Elysia()
+			.use(clerkMock.plugin())
+			.get("/export", ({ auth, error }) =>
+				auth.has({ feature: "export_csv" }) ? "csv" : error(402, "Upgrade to export")
+			)
+			.get("/claims", ({ auth }) => ({
+				pla: auth.sessionClaims?.pla,
+				fea: auth.sessionClaims?.fea,
+				pro: auth.has({ plan: "user:pro" }),
+				team: auth.has({ plan: "org:team" }),
+			}));
+		return { clerkMock, app };
+	};
+
+	it("should put subscriptions of the user and its organization in the session claims", async () => {
+		const { clerkMock, app } = createApp();
+		clerkMock.setSubscription("org_admin", "team", { features: ["audit_log"] });
+
+		expect(await (await app.handle(request("/claims", { token: "valid-token" }))).json()).toEqual({
+			pla: "u:free,o:team",
+			fea: "u:dashboard,o:reports,o:audit_log",
+			pro: false,
+			team: true,
+		});
+
+		const token = (await clerkMock.getUser().getToken())!;
+		const payload = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString());
+		expect(payload).toMatchObject({ pla: "u:free,o:team" });
+	});
+
+	it("should gate features as subscriptions are upgraded and downgraded", async () => {
+		const { clerkMock, app } = createApp();
+		expect((await app.handle(request("/export", { token: "valid-token" }))).status).toBe(402);
+
+		clerkMock.setSubscription("user_admin", "pro");
+		expect(await (await app.handle(request("/export", { token: "valid-token" }))).text()).toBe(
+			"csv"
+		);
+
+		clerkMock.setSubscription("user_admin", "free");
+		expect((await app.handle(request("/export", { token: "valid-token" }))).status).toBe(402);
+
+		clerkMock.cancelSubscription("user_admin");
+		expect(
+			await (await app.handle(request("/claims", { token: "valid-token" }))).json()
+		).toMatchObject({ pro: false });
+
+		clerkMock.reset();
+		clerkMock.mockAdmin();
+		expect(
+			await (await app.handle(request("/claims", { token: "valid-token" }))).json()
+		).toMatchObject({
+			pla: "u:free",
+		});
+	});
+
+	it("should keep billing claims of the mock user without subscriptions", async () => {
+		const clerkMock = createClerkMock({ sessionClaims: { pla: "u:pro" } });
+		const app = new Elysia()
+			.use(clerkMock.plugin())
+			.get("/", ({ auth }) => auth.has({ plan: "pro" }));
+
+		expect(await (await app.handle(request("/", { token: "valid-token" }))).text()).toBe("true");
+		expect(() => clerkMock.setSubscription("pro", "pro")).toThrow('Invalid payer "pro"');
+	});
+});
@@ -4,7 +4,7 @@ import { describe, expect, it, beforeEach, mock } from "bun:test";
 import { Elysia } from "elysia";
 import { clerkPlugin } from "elysia-clerk";
 import { treaty } from "@elysiajs/eden";
-import { clerkMock } from "../index";
+import { ElysiaClerkMock, clerkMock } from "../index";
 
 mock.module("elysia-clerk", () => {
 	return {
@@ -99,6 +99,7 @@ describe("Elysia Clerk Mock Tests", () => {
 	});
 
 	it("should fail for unauthenticated requests", async () => {
+		clerkMock.setRequireAuth(true);
 		// Set it as unauthenticated
 		clerkMock.mockUnauthenticated();
 
@@ -124,6 +125,22 @@ describe("Elysia Clerk Mock Tests", () => {
 
 		const client = treaty(app);
 
+		// No Authorization header resolves to a signed out auth object
+		const response = await client.index.get();
+
+		expect(response.status).toBe(200);
+		expect(response.data?.userId).toBeNull();
+		expect(response.data?.sessionId).toBeNull();
+		expect(response.headers.get("x-clerk-auth-status")).toBe("signed-out");
+	});
+
+	it("should reject requests without a token when requireAuth is enabled", async () => {
+		clerkMock.setRequireAuth(true);
+
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
+
+		const client = treaty(app);
+
 		// No Authorization header
 		const response = await client.index.get();
 
@@ -131,6 +148,27 @@ describe("Elysia Clerk Mock Tests", () => {
 		expect(response.status).toBe(401);
 	});
 
+	it("should let public routes branch on a signed out auth", async () => {
+		const app = new Elysia().use(clerkPlugin()).get("/greeting", ({ auth }) => ({
+			greeting: auth.userId === null ? "Hello, guest" : `Hello, ${auth.userId}`,
+			isAdmin: auth.has({ role: "org:admin" }),
+		}));
+
+		const client = treaty(app);
+
+		const guestResponse = await client.greeting.get({
+			headers: { Authorization: "Bearer invalid-token" },
+		});
+		expect(guestResponse.status).toBe(200);
+		expect(guestResponse.data?.greeting).toBe("Hello, guest");
+		expect(guestResponse.data?.isAdmin).toBe(false);
+
+		const userResponse = await client.greeting.get({
+			headers: { Authorization: "Bearer valid-token" },
+		});
+		expect(userResponse.data?.greeting).toBe("Hello, user_default");
+	});
+
 	// New tests start here
 	it("should allow custom roles in sessionClaims", async () => {
 		// Set custom roles
@@ -164,6 +202,7 @@ describe("Elysia Clerk Mock Tests", () => {
 	});
 
 	it("should handle expired token correctly", async () => {
+		clerkMock.setRequireAuth(true);
 		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
 
 		const client = treaty(app);
@@ -252,7 +291,7 @@ describe("Elysia Clerk Mock Tests", () => {
 		expect(protectedResponse.status).toBe(200);
 		expect(protectedResponse.data?.status).toBe("authorized");
 
-		// Call public route with auth header (needed due to how we mocked the plugin)
+		// Call public route with auth header
 		const publicResponse = await client.public.get({
 			headers: { Authorization: "Bearer valid-token" },
 		});
@@ -325,6 +364,7 @@ describe("Elysia Clerk Mock Tests", () => {
 	});
 
 	it("should maintain auth state through chained calls", async () => {
+		clerkMock.setRequireAuth(true);
 		// Set initial state
 		clerkMock.mockAdmin();
 
@@ -561,6 +601,7 @@ describe("Elysia Clerk Mock Tests", () => {
 	});
 
 	it("should correctly restore between different user states", async () => {
+		clerkMock.setRequireAuth(true);
 		// Create a simple app that returns the auth object
 		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
 		const client = treaty(app);
@@ -635,4 +676,689 @@ describe("Elysia Clerk Mock Tests", () => {
 		expect(resetResponse.data?.orgPermissions).toBeUndefined();
 		expect(resetResponse.data?.orgSlug).toBeUndefined();
 	});
+
+	it("should resolve registered tokens to different users", async () => {
+		clerkMock.registerToken("alice-token", { userId: "user_alice", orgId: "org_shared" });
+		clerkMock.registerToken("bob-token", { userId: "user_bob", orgId: "org_shared" });
+
+		const documents = new Map<string, string>();
+		const app = new Elysia()
+			.use(clerkPlugin())
+			.post("/documents/:id", ({ auth, params }) => {
+				documents.set(params.id, auth.userId!);
+				return { owner: auth.userId };
+			})
+			.delete("/documents/:id", ({ auth, params, error }) => {
+				if (documents.get(params.id) !== auth.userId) {
+					return error(403, "Forbidden");
+				}
+				documents.delete(params.id);
+				return { deleted: params.id };
+			});
+
+		const client = treaty(app);
+
+		const created = await client.documents({ id: "doc_1" }).post(undefined, {
+			headers: { Authorization: "Bearer alice-token" },
+		});
+		expect(created.status).toBe(200);
+		expect(created.data?.owner).toBe("user_alice");
+
+		const bobResponse = await client.documents({ id: "doc_1" }).delete(undefined, {
+			headers: { Authorization: "Bearer bob-token" },
+		});
+		expect(bobResponse.status).toBe(403);
+
+		const aliceResponse = await client.documents({ id: "doc_1" }).delete(undefined, {
+			headers: { Authorization: "Bearer alice-token" },
+		});
+		expect(aliceResponse.status).toBe(200);
+	});
+
+	it("should keep seeded roles for registered tokens without a role", async () => {
+		const seededMock = new ElysiaClerkMock(undefined, {
+			organizations: [
+				{ id: "org_team", name: "Team", members: [{ userId: "user_alice", role: "org:admin" }] },
+			],
+		});
+		seededMock.registerToken("alice-token", { userId: "user_alice", orgId: "org_team" });
+
+		const app = new Elysia().use(seededMock.plugin()).get("/", ({ auth }) => auth.orgRole);
+		const response = await app.handle(
+			new Request("http://localhost/", { headers: { Authorization: "Bearer alice-token" } })
+		);
+		expect(await response.text()).toBe("org:admin");
+	});
+
+	it("should fall back to the current user for unknown tokens by default", async () => {
+		clerkMock.registerToken("alice-token", { userId: "user_alice" });
+		clerkMock.mockUser();
+
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
+		const client = treaty(app);
+
+		const response = await client.index.get({
+			headers: { Authorization: "Bearer valid-token" },
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.data?.userId).toBe("user_regular");
+	});
+
+	it("should reject unknown tokens when the policy is reject", async () => {
+		clerkMock.setRequireAuth(true);
+		clerkMock.registerToken("alice-token", { userId: "user_alice" });
+		clerkMock.setUnknownTokenPolicy("reject");
+
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
+		const client = treaty(app);
+
+		const unknownResponse = await client.index.get({
+			headers: { Authorization: "Bearer valid-token" },
+		});
+		expect(unknownResponse.status).toBe(401);
+
+		const aliceResponse = await client.index.get({
+			headers: { Authorization: "Bearer alice-token" },
+		});
+		expect(aliceResponse.status).toBe(200);
+		expect(aliceResponse.data?.userId).toBe("user_alice");
+	});
+
+	it("should clear registered tokens and policy on reset()", async () => {
+		clerkMock.registerToken("alice-token", { userId: "user_alice" });
+		clerkMock.setUnknownTokenPolicy("reject");
+		clerkMock.reset();
+
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
+		const client = treaty(app);
+
+		const response = await client.index.get({
+			headers: { Authorization: "Bearer alice-token" },
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.data?.userId).toBe("user_default");
+	});
+
+	it("should evaluate has() against the mocked organization role and permissions", async () => {
+		clerkMock.mockAdmin({
+			orgPermissions: ["org:invoices:read"],
+		});
+
+		const app = new Elysia().use(clerkPlugin()).get("/invoices", ({ auth, error }) => {
+			if (!auth.has({ permission: "org:invoices:read" })) {
+				return error(403, "Forbidden");
+			}
+			return {
+				isAdmin: auth.has({ role: "org:admin" }),
+				canWrite: auth.has({ permission: "org:invoices:write" }),
+			};
+		});
+
+		const client = treaty(app);
+		const headers = { Authorization: "Bearer valid-token" };
+
+		const adminResponse = await client.invoices.get({ headers });
+		expect(adminResponse.status).toBe(200);
+		expect(adminResponse.data?.isAdmin).toBe(true);
+		expect(adminResponse.data?.canWrite).toBe(false);
+
+		clerkMock.reset();
+		clerkMock.mockUser();
+		const userResponse = await client.invoices.get({ headers });
+		expect(userResponse.status).toBe(403);
+	});
+
+	it("should attach a signed session token matching the mocked claims", async () => {
+		clerkMock.mockAdmin();
+
+		const app = new Elysia()
+			.use(clerkMock.jwks())
+			.use(clerkPlugin())
+			.get("/", async ({ auth }) => ({
+				raw: auth.sessionClaims?.__raw,
+				token: await auth.getToken(),
+			}));
+
+		const client = treaty(app);
+		const response = await client.index.get({
+			headers: { Authorization: "Bearer valid-token" },
+		});
+
+		expect(response.status).toBe(200);
+		const [, payload] = response.data!.raw!.split(".");
+		const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+		expect(claims.sub).toBe("user_admin");
+		expect(claims.sid).toBe("sess_admin");
+		expect(claims.org_id).toBe("org_admin");
+		expect(claims.org_role).toBe("org:admin");
+		expect(claims.exp).toBeGreaterThan(claims.iat);
+		expect(response.data?.token?.split(".")).toHaveLength(3);
+
+		const jwksResponse = await client[".well-known"]["jwks.json"].get();
+		expect(jwksResponse.data?.keys[0].kid).toBe(clerkMock.getJwks().keys[0].kid);
+	});
+
+	it("should verify presented tokens when token verification is enabled", async () => {
+		clerkMock.setRequireAuth(true);
+		clerkMock.setVerifyTokens(true);
+		clerkMock.mockAdmin();
+		const token = await clerkMock.getUser().getToken();
+
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
+		const client = treaty(app);
+
+		const response = await client.index.get({
+			headers: { Authorization: `Bearer ${token}` },
+		});
+		expect(response.status).toBe(200);
+		expect(response.data?.userId).toBe("user_admin");
+		expect(response.data?.orgRole).toBe("org:admin");
+		expect(response.data?.sessionClaims?.__raw).toBe(token!);
+
+		const magicResponse = await client.index.get({
+			headers: { Authorization: "Bearer valid-token" },
+		});
+		expect(magicResponse.status).toBe(401);
+		expect(magicResponse.headers.get("x-clerk-auth-reason")).toBe("token-invalid");
+	});
+
+	it("should report Clerk's verification error reasons for rejected tokens", async () => {
+		clerkMock.setRequireAuth(true);
+		clerkMock.setVerifyTokens(true);
+		const now = Math.floor(Date.now() / 1000);
+		const claims = { iss: "https://clerk.com", sub: "user_123", sid: "sess_123" };
+
+		const app = new Elysia()
+			.use(clerkPlugin({ authorizedParties: ["https://app.example.com"] }))
+			.get("/", ({ auth }) => auth);
+		const client = treaty(app);
+		const reasonFor = async (token: string) => {
+			const response = await client.index.get({
+				headers: { Authorization: `Bearer ${token}` },
+			});
+			expect(response.status).toBe(401);
+			return response.headers.get("x-clerk-auth-reason");
+		};
+
+		// Expired and not yet active tokens are reported the way authenticateRequest converts them
+		const expired = clerkMock.signToken({ ...claims, iat: now - 120, exp: now - 60 });
+		expect(await reasonFor(expired)).toBe(
+			"session-token-expired-refresh-non-eligible-no-refresh-cookie"
+		);
+
+		const notActive = clerkMock.signToken({ ...claims, nbf: now + 60, exp: now + 120 });
+		expect(await reasonFor(notActive)).toBe("session-token-nbf");
+
+		const foreignParty = clerkMock.signToken({
+			...claims,
+			azp: "https://evil.example.com",
+			exp: now + 60,
+		});
+		expect(await reasonFor(foreignParty)).toBe("token-invalid-authorized-parties");
+
+		const wrongIssuer = clerkMock.signToken({
+			...claims,
+			iss: "https://evil.example.com",
+			exp: now + 60,
+		});
+		expect(await reasonFor(wrongIssuer)).toBe("token-verification-failed");
+
+		const [header, , signature] = clerkMock.signToken({ ...claims, exp: now + 60 }).split(".");
+		const tamperedPayload = Buffer.from(
+			JSON.stringify({ ...claims, sub: "user_admin", exp: now + 60 })
+		).toString("base64url");
+		expect(await reasonFor(`${header}.${tamperedPayload}.${signature}`)).toBe(
+			"token-invalid-signature"
+		);
+	});
+
+	it("should tolerate clock skew when verifying tokens", async () => {
+		clerkMock.setVerifyTokens(true);
+		const now = Math.floor(Date.now() / 1000);
+		const token = clerkMock.signToken({
+			iss: "https://clerk.com",
+			sub: "user_123",
+			sid: "sess_123",
+			exp: now - 2,
+		});
+
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
+		const client = treaty(app);
+		const response = await client.index.get({
+			headers: { Authorization: `Bearer ${token}` },
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.data?.userId).toBe("user_123");
+	});
+
+	it("should authenticate requests with the __session cookie", async () => {
+		clerkMock.registerToken("alice-token", { userId: "user_alice" });
+
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
+		const client = treaty(app);
+
+		const response = await client.index.get({
+			headers: { Cookie: "__session=alice-token; __client_uat=1700000000" },
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.data?.userId).toBe("user_alice");
+	});
+
+	it("should sign out malformed __session cookies", async () => {
+		clerkMock.setVerifyTokens(true);
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth.userId);
+
+		const response = await app.handle(
+			new Request("http://localhost/", {
+				headers: { Cookie: "__session=eyJhbGciOiJSUzI1NiJ9.bnVsbA.c2ln; __client_uat=1" },
+			})
+		);
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe("");
+		expect(response.headers.get("x-clerk-auth-status")).toBe("signed-out");
+		expect(response.headers.get("x-clerk-auth-reason")).toBe("token-invalid");
+	});
+
+	it("should treat a __client_uat of 0 as signed out", async () => {
+		clerkMock.setRequireAuth(true);
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
+		const client = treaty(app);
+
+		const response = await client.index.get({
+			headers: { Cookie: "__session=valid-token; __client_uat=0" },
+		});
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get("x-clerk-auth-status")).toBe("signed-out");
+		expect(response.headers.get("x-clerk-auth-reason")).toBe("session-token-but-no-client-uat");
+	});
+
+	it("should not trust session cookies on cross-origin requests", async () => {
+		clerkMock.setRequireAuth(true);
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth);
+
+		const response = await app.handle(
+			new Request("http://localhost/", {
+				headers: {
+					Cookie: "__session=valid-token; __client_uat=1700000000",
+					Origin: "https://evil.example.com",
+				},
+			})
+		);
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get("x-clerk-auth-reason")).toBe("header-missing-cors");
+	});
+
+	it("should redirect document requests to the handshake", async () => {
+		const app = new Elysia().use(clerkPlugin()).get("/dashboard", ({ auth }) => auth);
+
+		const response = await app.handle(
+			new Request("http://localhost/dashboard", {
+				headers: {
+					Cookie: "__client_uat=1700000000",
+					"Sec-Fetch-Dest": "document",
+				},
+			})
+		);
+
+		expect(response.status).toBe(307);
+		expect(response.headers.get("x-clerk-auth-status")).toBe("handshake");
+		const location = new URL(response.headers.get("location")!);
+		expect(location.pathname).toBe("/v1/client/handshake");
+		expect(location.searchParams.get("redirect_url")).toBe("http://localhost/dashboard");
+		expect(location.searchParams.get("__clerk_hs_reason")).toBe("client-uat-but-no-session-token");
+	});
+
+	it("should require a dev browser token on development instances", async () => {
+		const devMock = new ElysiaClerkMock(undefined, {
+			instanceType: "development",
+			requireAuth: true,
+		});
+		const app = new Elysia().use(devMock.plugin()).get("/", ({ auth }) => auth.userId);
+		const cookies = "__session=valid-token; __client_uat=1700000000";
+
+		const missing = await app.handle(
+			new Request("http://localhost/", { headers: { Cookie: cookies } })
+		);
+		expect(missing.status).toBe(401);
+		expect(missing.headers.get("x-clerk-auth-reason")).toBe("dev-browser-missing");
+
+		const withDevBrowser = await app.handle(
+			new Request("http://localhost/", {
+				headers: { Cookie: `${cookies}; __clerk_db_jwt=dvb_123` },
+			})
+		);
+		expect(withDevBrowser.status).toBe(200);
+		expect(await withDevBrowser.text()).toBe("user_default");
+	});
+
+	it("should resolve the authenticated user through the mocked users API", async () => {
+		clerkMock.mockAdmin();
+		clerkMock.seedUsers([{ id: "user_seeded", firstName: "Seeded" }]);
+
+		const app = new Elysia()
+			.use(clerkPlugin())
+			.get("/me", async ({ auth, clerk }) => (await clerk.users.getUser(auth.userId!)).id)
+			.get("/seeded", async ({ clerk }) => (await clerk.users.getUser("user_seeded")).firstName)
+			.post("/ban/:id", async ({ clerk, params }) => (await clerk.users.banUser(params.id)).banned);
+		const headers = { Authorization: "Bearer valid-token" };
+
+		const me = await app.handle(new Request("http://localhost/me", { headers }));
+		expect(await me.text()).toBe("user_admin");
+
+		const seeded = await app.handle(new Request("http://localhost/seeded", { headers }));
+		expect(await seeded.text()).toBe("Seeded");
+
+		const banned = await app.handle(
+			new Request("http://localhost/ban/user_seeded", { method: "POST", headers })
+		);
+		expect(await banned.text()).toBe("true");
+
+		clerkMock.reset();
+		const { data } = await clerkMock.plugin().decorator.clerk.users.getUserList();
+		expect(data.map(({ id }) => id)).toEqual(["user_default"]);
+	});
+
+	it("should derive the organization claims from membership records", async () => {
+		const roleMock = new ElysiaClerkMock(undefined, {
+			rolePermissions: { "org:admin": ["org:members:manage"] },
+		});
+		roleMock.mockUser({ orgId: "org_team", orgSlug: "team" });
+
+		const app = new Elysia()
+			.use(roleMock.plugin())
+			.get("/org", ({ auth }) => ({
+				orgId: auth.orgId,
+				orgRole: auth.orgRole,
+				canManage: auth.has({ permission: "org:members:manage" }),
+			}))
+			.post("/promote/:id", ({ clerk, params }) =>
+				clerk.organizations.updateOrganizationMembership({
+					organizationId: "org_team",
+					userId: params.id,
+					role: "org:admin",
+				})
+			)
+			.post("/remove/:id", ({ clerk, params }) =>
+				clerk.organizations.deleteOrganizationMembership({
+					organizationId: "org_team",
+					userId: params.id,
+				})
+			);
+		const headers = { Authorization: "Bearer valid-token" };
+		const getOrg = async () =>
+			(await app.handle(new Request("http://localhost/org", { headers }))).json();
+
+		expect(await getOrg()).toEqual({ orgId: "org_team", orgRole: "org:member", canManage: false });
+
+		await app.handle(
+			new Request("http://localhost/promote/user_regular", { method: "POST", headers })
+		);
+		expect(await getOrg()).toEqual({ orgId: "org_team", orgRole: "org:admin", canManage: true });
+
+		await app.handle(
+			new Request("http://localhost/remove/user_regular", { method: "POST", headers })
+		);
+		const removed = await getOrg();
+		expect(removed.orgId).toBeUndefined();
+		expect(removed.canManage).toBe(false);
+	});
+
+	it("should resolve request scoped identities from the identity header", async () => {
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => ({
+			userId: auth.userId,
+			orgRole: auth.orgRole,
+		}));
+		const request = (identity: string) =>
+			app
+				.handle(
+					new Request("http://localhost/", { headers: { "x-clerk-mock-identity": identity } })
+				)
+				.then((response) => response.json());
+
+		const [admin, user, custom, signedOut] = await Promise.all([
+			request("admin"),
+			request("user"),
+			request(JSON.stringify({ userId: "user_custom", orgRole: "org:billing" })),
+			request("signed-out"),
+		]);
+
+		expect(admin).toEqual({ userId: "user_admin", orgRole: "org:admin" });
+		expect(user).toEqual({ userId: "user_regular", orgRole: "org:member" });
+		expect(custom).toEqual({ userId: "user_custom", orgRole: "org:billing" });
+		expect(signedOut.userId).toBeNull();
+		// The shared mock user is untouched
+		expect(clerkMock.getUser().userId).toBe("user_default");
+	});
+
+	it("should keep the roles of request scoped identities to their own request", async () => {
+		const app = new Elysia()
+			.use(clerkPlugin())
+			.get("/", ({ auth }) => ({ orgId: auth.orgId, orgRole: auth.orgRole }))
+			.get("/members", ({ clerk }) =>
+				clerk.organizations
+					.getOrganizationMembershipList({ organizationId: "org_default" })
+					.then(({ data }) => data.map(({ publicUserData }) => publicUserData?.userId))
+			);
+		const request = (orgRole: string) =>
+			app
+				.handle(
+					new Request("http://localhost/", {
+						headers: {
+							"x-clerk-mock-identity": JSON.stringify({
+								userId: "user_bob",
+								orgId: "org_default",
+								orgRole,
+							}),
+						},
+					})
+				)
+				.then((response) => response.json());
+
+		const [admin, member] = await Promise.all([request("org:admin"), request("org:member")]);
+
+		expect(admin).toEqual({ orgId: "org_default", orgRole: "org:admin" });
+		expect(member).toEqual({ orgId: "org_default", orgRole: "org:member" });
+		// No lasting membership was created for the override
+		const members = await app.handle(new Request("http://localhost/members"));
+		expect(await members.json()).not.toContain("user_bob");
+	});
+
+	it("should sign out identity headers that aren't user data", async () => {
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth.userId);
+		const request = (identity: string) =>
+			app.handle(
+				new Request("http://localhost/", { headers: { "x-clerk-mock-identity": identity } })
+			);
+
+		for (const identity of ["42", '"admin"', "[]", "null-ish"]) {
+			const response = await request(identity);
+			expect(response.status).toBe(200);
+			expect(response.headers.get("x-clerk-auth-reason")).toBe("identity-override-invalid");
+		}
+		const signedOut = await request(JSON.stringify({ userId: null }));
+		expect(signedOut.headers.get("x-clerk-auth-reason")).toBe("identity-override");
+	});
+
+	it("should resolve request scoped identities from a resolveAuth callback", async () => {
+		const app = new Elysia()
+			.use(
+				clerkMock.plugin({
+					resolveAuth: async (request) => {
+						const userId = new URL(request.url).searchParams.get("as");
+						return userId === "nobody" ? null : userId ? { userId } : undefined;
+					},
+				})
+			)
+			.get("/", ({ auth }) => auth.userId ?? "signed-out");
+		const request = (query: string) =>
+			app
+				.handle(
+					new Request(`http://localhost/${query}`, {
+						headers: { Authorization: "Bearer valid-token" },
+					})
+				)
+				.then((response) => response.text());
+
+		expect(
+			await Promise.all([
+				request("?as=user_a"),
+				request("?as=user_b"),
+				request("?as=nobody"),
+				request(""),
+			])
+		).toEqual(["user_a", "user_b", "signed-out", "user_default"]);
+	});
+
+	it("should deep merge partial session claims in setUser", async () => {
+		clerkMock.mockAdmin();
+		const user = clerkMock.setUser({ userId: "user_merged", sessionClaims: { pla: "u:pro" } });
+
+		expect(user.sessionClaims).toMatchObject({
+			sub: "user_merged",
+			sid: "sess_admin",
+			iss: "https://clerk.com",
+			roles: ["org:admin"],
+			pla: "u:pro",
+		});
+		expect(clerkMock.setUser({ sessionClaims: { pla: null } }).sessionClaims).not.toHaveProperty(
+			"pla"
+		);
+	});
+
+	it("should reject impossible auth states without changing the mock user", () => {
+		expect(() => clerkMock.setUser({ orgId: undefined })).toThrow(
+			"Invalid mock auth state:\n- orgRole requires an orgId"
+		);
+		expect(() =>
+			clerkMock.registerToken("broken", { actor: { iss: "https://dashboard.clerk.com" } })
+		).toThrow("actor.sub must identify the impersonating user");
+		expect(clerkMock.getUser().orgId).toBe("org_default");
+	});
+
+	it("should sign the mock user out with an explicit null userId", () => {
+		clerkMock.mockAdmin();
+		expect(clerkMock.setUser({ userId: null })).toMatchObject({
+			userId: null,
+			sessionId: null,
+			sessionClaims: null,
+			orgId: null,
+		});
+		expect(() => clerkMock.setUser({ userId: null, orgId: "org_admin" })).toThrow(
+			"orgId must be null when userId is null"
+		);
+	});
+
+	it("should mock impersonation sessions with a consistent actor", async () => {
+		clerkMock.setVerifyTokens(true);
+		clerkMock.mockImpersonation({ impersonator: "user_support", target: "user_customer" });
+		const token = await clerkMock.getUser().getToken();
+
+		const app = new Elysia().use(clerkPlugin()).get("/", async ({ auth, clerk, request }) => ({
+			actor: auth.actor,
+			act: auth.sessionClaims?.act,
+			toAuth: (await clerk.authenticateRequest(request)).toAuth(),
+		}));
+		const response = await treaty(app).index.get({
+			headers: { Authorization: `Bearer ${token}` },
+		});
+
+		const actor = { sub: "user_support", iss: "https://dashboard.clerk.com" };
+		expect(response.data?.actor).toEqual(actor);
+		expect(response.data?.act).toEqual(actor);
+		expect(response.data?.toAuth).toMatchObject({ userId: "user_customer", actor });
+		const [, payload] = token!.split(".");
+		expect(JSON.parse(Buffer.from(payload, "base64url").toString()).act).toEqual(actor);
+	});
+
+	it("should end impersonation when the actor is cleared", () => {
+		clerkMock.mockImpersonation({ impersonator: { sub: "user_support", sid: "sess_support" } });
+		expect(clerkMock.getUser().sessionClaims?.act).toEqual({
+			sub: "user_support",
+			sid: "sess_support",
+		});
+
+		const user = clerkMock.setUser({ actor: undefined });
+		expect(user.actor).toBeUndefined();
+		expect(user.sessionClaims).not.toHaveProperty("act");
+		expect(() => clerkMock.mockImpersonation({ impersonator: "user_default" })).toThrow(
+			"user_default can't impersonate themselves"
+		);
+	});
+
+	it("should keep the current user when an impersonation fails validation", () => {
+		clerkMock.mockUser();
+
+		expect(() =>
+			clerkMock.mockImpersonation({ impersonator: "user_support", target: "user_support" })
+		).toThrow("user_support can't impersonate themselves");
+		expect(clerkMock.getUser()).toMatchObject({ userId: "user_regular", actor: undefined });
+	});
+
+	it("should sign out any token while the mock user is unauthenticated", async () => {
+		const signedOutMock = new ElysiaClerkMock(undefined, { requireAuth: true });
+		signedOutMock.mockUnauthenticated();
+		const app = new Elysia().use(signedOutMock.plugin()).get("/", ({ auth }) => auth.userId);
+		const request = () =>
+			new Request("http://localhost/", { headers: { Authorization: "Bearer abc" } });
+
+		const response = await app.handle(request());
+		expect(response.status).toBe(401);
+		expect(response.headers.get("x-clerk-auth-status")).toBe("signed-out");
+		expect(response.headers.get("x-clerk-auth-reason")).toBe("token-invalid");
+
+		const { clerk } = new Elysia().use(signedOutMock.plugin()).decorator;
+		const state = await clerk.authenticateRequest(request());
+		expect(state).toMatchObject({ status: "signed-out", isSignedIn: false });
+		expect(state.toAuth()).toMatchObject({ userId: null });
+	});
+
+	it("should return Clerk's RequestState from clerk.authenticateRequest", async () => {
+		clerkMock.mockAdmin();
+		const { clerk } = new Elysia().use(clerkPlugin()).decorator;
+
+		const signedIn = await clerk.authenticateRequest(
+			new Request("http://localhost/", { headers: { Authorization: "Bearer valid-token" } })
+		);
+		expect(signedIn).toMatchObject({
+			status: "signed-in",
+			reason: null,
+			message: null,
+			isSignedIn: true,
+			isSatellite: false,
+			signInUrl: "",
+		});
+		const auth = signedIn.toAuth()!;
+		expect(auth.userId).toBe("user_admin");
+		expect(auth.has({ role: "org:admin" })).toBe(true);
+		expect(signedIn.token).toBe("valid-token");
+
+		const signedOut = await clerk.authenticateRequest(new Request("http://localhost/"));
+		expect(signedOut).toMatchObject({
+			status: "signed-out",
+			reason: "session-token-and-uat-missing",
+			isSignedIn: false,
+			token: null,
+		});
+		expect(signedOut.toAuth()).toMatchObject({ userId: null, sessionClaims: null });
+		expect(signedOut.headers.get("x-clerk-auth-reason")).toBe("session-token-and-uat-missing");
+
+		const handshake = await clerk.authenticateRequest(
+			new Request("http://localhost/", {
+				headers: { "sec-fetch-dest": "document", Cookie: "__client_uat=1700000000" },
+			})
+		);
+		expect(handshake.status).toBe("handshake");
+		expect(handshake.reason).toBe("client-uat-but-no-session-token");
+		expect(handshake.toAuth()).toBeNull();
+		expect(handshake.headers.get("location")).toStartWith(
+			"https://clerk.mock.accounts.dev/v1/client/handshake"
+		);
+	});
 });
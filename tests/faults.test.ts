@@ -0,0 +1,85 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { Elysia } from "elysia";
+import { createClerkMock } from "../index";
+
+describe("Fault injection", () => {
+	const createClient = () => {
+		const clerkMock = createClerkMock();
+		clerkMock.mockAdmin();
+		const clerk = new Elysia().use(clerkMock.plugin()).decorator.clerk;
+		return { clerkMock, clerk };
+	};
+
+	it("should rate limit the next calls of a Backend API method", async () => {
+		const { clerkMock, clerk } = createClient();
+		clerkMock.injectFault("users.getUser", { status: 429, retryAfter: 30, times: 2 });
+
+		for (let attempt = 0; attempt < 2; attempt++) {
+			const error = await clerk.users.getUser("user_admin").catch((error) => error);
+			expect(error).toMatchObject({
+				clerkError: true,
+				status: 429,
+				retryAfter: 30,
+				errors: [{ code: "too_many_requests" }],
+			});
+		}
+		expect((await clerk.users.getUser("user_admin")).id).toBe("user_admin");
+		expect((await clerk.users.getUserList()).totalCount).toBeGreaterThan(0);
+	});
+
+	it("should fail whole namespaces and delay calls", async () => {
+		const { clerkMock, clerk } = createClient();
+		clerkMock.injectFault("organizations.*", { status: 503 });
+		clerkMock.injectFault("users.*", { latency: "50ms" });
+
+		await expect(clerk.organizations.getOrganizationList()).rejects.toMatchObject({
+			status: 503,
+			errors: [{ code: "internal_clerk_error" }],
+		});
+
+		const start = performance.now();
+		await clerk.users.getUser("user_admin");
+		expect(performance.now() - start).toBeGreaterThanOrEqual(45);
+
+		clerkMock.injectFault("users.getUser", { status: 500, probability: 0 });
+		expect((await clerk.users.getUser("user_admin")).id).toBe("user_admin");
+
+		clerkMock.reset();
+		expect((await clerk.organizations.getOrganizationList()).totalCount).toBeGreaterThan(0);
+	});
+
+	it("should sign out requests while the JWKS can't be loaded", async () => {
+		const clerkMock = createClerkMock(undefined, { verifyTokens: true });
+		const app = new Elysia()
+			.use(clerkMock.jwks())
+			.use(clerkMock.plugin())
+			.get("/", ({ auth }) => auth.userId ?? "signed-out");
+		const token = (await clerkMock.getUser().getToken())!;
+		const request = () =>
+			app.handle(
+				new Request("http://localhost/", { headers: { Authorization: `Bearer ${token}` } })
+			);
+
+		clerkMock.injectFault("jwks", { status: 503, times: 2 });
+		const response = await request();
+		expect(await response.text()).toBe("signed-out");
+		expect(response.headers.get("x-clerk-auth-reason")).toBe("jwk-remote-failed-to-load");
+
+		const jwks = await app.handle(new Request("http://localhost/.well-known/jwks.json"));
+		expect(jwks.status).toBe(503);
+
+		expect(await (await request()).text()).toBe("user_default");
+	});
+
+	it("should reject invalid faults", () => {
+		const clerkMock = createClerkMock();
+		expect(() => clerkMock.injectFault("users.getUser", { status: 404 })).toThrow(
+			"Invalid fault status 404"
+		);
+		expect(() => clerkMock.injectFault("*", { probability: 2 })).toThrow(
+			"Invalid fault probability 2"
+		);
+	});
+});
@@ -0,0 +1,19 @@
+/** @format */
+
+type RequestOptions = {
+	/**
+	 * Sent as `Authorization: Bearer <token>`
+	 */
+	token?: string;
+	headers?: Record<string, string>;
+};
+
+/**
+ * Build a request to a path of the app under test
+ */
+const request = (path: string, { token, headers }: RequestOptions = {}) =>
+	new Request(`http://localhost${path}`, {
+		headers: token ? { Authorization: `Bearer ${token}`, ...headers } : headers,
+	});
+
+export { request };
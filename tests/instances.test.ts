@@ -0,0 +1,67 @@
+/** @format */
+
+import { describe, expect, it, mock } from "bun:test";
+import { Elysia } from "elysia";
+import { clerkPlugin } from "elysia-clerk";
+import { clerkMock, createClerkMock } from "../index";
+
+// Connect an instance of its own to this file's `elysia-clerk` imports
+const fileMock = createClerkMock();
+mock.module("elysia-clerk", fileMock.mockModule);
+
+const headers = { Authorization: "Bearer valid-token" };
+
+describe("Isolated mock instances", () => {
+	it("should bind the mocked module to the file's own instance", async () => {
+		fileMock.mockAdmin();
+		clerkMock.mockUser();
+
+		const app = new Elysia().use(clerkPlugin()).get("/", ({ auth }) => auth.userId);
+		const response = await app.handle(new Request("http://localhost/", { headers }));
+
+		expect(await response.text()).toBe("user_admin");
+		clerkMock.reset();
+	});
+
+	it("should keep identities, tokens and stores of separate instances apart", async () => {
+		const billing = createClerkMock();
+		const accounts = createClerkMock(undefined, { unknownTokenPolicy: "reject" });
+		billing.setUser({ userId: "user_billing" });
+		accounts.registerToken("accounts-token", { userId: "user_accounts" });
+
+		const billingApp = new Elysia().use(billing.plugin()).get("/", async ({ auth, clerk }) => ({
+			userId: auth.userId,
+			users: (await clerk.users.getUserList()).data.map(({ id }) => id).sort(),
+		}));
+		const accountsApp = new Elysia().use(accounts.plugin()).get("/", ({ auth }) => auth.userId);
+
+		const billingResponse = await billingApp.handle(new Request("http://localhost/", { headers }));
+		expect(await billingResponse.json()).toEqual({
+			userId: "user_billing",
+			users: ["user_billing", "user_default"],
+		});
+
+		const accountsResponse = await accountsApp.handle(
+			new Request("http://localhost/", { headers: { Authorization: "Bearer accounts-token" } })
+		);
+		expect(await accountsResponse.text()).toBe("user_accounts");
+
+		const unknown = await accountsApp.handle(new Request("http://localhost/", { headers }));
+		expect(await unknown.text()).toBe("");
+	});
+
+	it("should not deduplicate the plugins of different instances", async () => {
+		const first = createClerkMock({ userId: "user_first" });
+		const second = createClerkMock({ userId: "user_second" });
+
+		const app = new Elysia()
+			.group("/first", (app) => app.use(first.plugin()).get("/", ({ auth }) => auth.userId))
+			.group("/second", (app) => app.use(second.plugin()).get("/", ({ auth }) => auth.userId));
+
+		const firstResponse = await app.handle(new Request("http://localhost/first/", { headers }));
+		const secondResponse = await app.handle(new Request("http://localhost/second/", { headers }));
+
+		expect(await firstResponse.text()).toBe("user_first");
+		expect(await secondResponse.text()).toBe("user_second");
+	});
+});
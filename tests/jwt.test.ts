@@ -0,0 +1,45 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { createPublicKey, createVerify } from "node:crypto";
+import { createSigningKey, signJwt, toJwks, verifyJwt } from "../src/jwt";
+
+describe("JWT signing", () => {
+	const key = createSigningKey();
+
+	it("should sign tokens that verify against the JWKS public key", () => {
+		const token = signJwt({ sub: "user_123" }, key);
+		const [header, payload, signature] = token.split(".");
+
+		const [jwk] = toJwks(key).keys;
+		const publicKey = createPublicKey({ key: jwk, format: "jwk" });
+		const isValid = createVerify("RSA-SHA256")
+			.update(`${header}.${payload}`)
+			.verify(publicKey, Buffer.from(signature, "base64url"));
+
+		expect(isValid).toBe(true);
+		expect(JSON.parse(Buffer.from(header, "base64url").toString())).toEqual({
+			alg: "RS256",
+			typ: "JWT",
+			kid: key.kid,
+		});
+		expect(JSON.parse(Buffer.from(payload, "base64url").toString())).toEqual({ sub: "user_123" });
+	});
+
+	it("should publish the key id and algorithm in the JWKS document", () => {
+		const [jwk] = toJwks(key).keys;
+
+		expect(jwk.kid).toBe(key.kid);
+		expect(jwk.alg).toBe("RS256");
+		expect(jwk.use).toBe("sig");
+		expect(jwk.kty).toBe("RSA");
+	});
+
+	it("should reject tokens whose header or payload is not a JSON object", () => {
+		for (const token of ["eyJhbGciOiJSUzI1NiJ9.bnVsbA.c2ln", "WzFd.eyJzdWIiOiJ1c2VyIn0.c2ln"]) {
+			const { errors } = verifyJwt(token, { key });
+			expect(errors?.[0].reason).toBe("token-invalid");
+			expect(errors?.[0].message).toBe("Invalid JWT. The header or payload is not a JSON object.");
+		}
+	});
+});
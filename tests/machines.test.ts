@@ -0,0 +1,117 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { Elysia } from "elysia";
+import { createClerkMock } from "../index";
+import { request } from "./helpers";
+
+describe("Machine tokens", () => {
+	const createApp = () => {
+		const clerkMock = createClerkMock();
+		const app = new Elysia()
+			.get("/", () => "public")
+			.group("/cron", (app) =>
+				app
+					.use(clerkMock.plugin({ acceptsToken: "m2m_token" }))
+					.get("/run", ({ auth }) => auth as Record<string, unknown>)
+			)
+			.group("/partners", (app) =>
+				app
+					.use(clerkMock.plugin({ acceptsToken: ["api_key", "oauth_token"] }))
+					.get("/orders", ({ auth }) => auth as Record<string, unknown>)
+			)
+			.group("/me", (app) =>
+				app.use(clerkMock.plugin()).get("/", ({ auth }) => ({ userId: auth.userId }))
+			);
+		return { clerkMock, app };
+	};
+
+	it("should resolve machine tokens to machine auth objects", async () => {
+		const { clerkMock, app } = createApp();
+		const m2m = clerkMock.issueMachineToken("m2m_token", {
+			subject: "mch_billing",
+			scopes: ["mch_cron"],
+			claims: { job: "invoices" },
+		});
+		const apiKey = clerkMock.issueMachineToken("api_key", {
+			subject: "org_partner",
+			name: "Partner key",
+			scopes: ["orders:read"],
+		});
+
+		expect(await (await app.handle(request("/cron/run", { token: m2m }))).json()).toMatchObject({
+			tokenType: "m2m_token",
+			isAuthenticated: true,
+			subject: "mch_billing",
+			machineId: "mch_billing",
+			scopes: ["mch_cron"],
+			claims: { job: "invoices" },
+		});
+		expect(
+			await (await app.handle(request("/partners/orders", { token: apiKey }))).json()
+		).toMatchObject({
+			tokenType: "api_key",
+			name: "Partner key",
+			orgId: "org_partner",
+			userId: null,
+			scopes: ["orders:read"],
+		});
+	});
+
+	it("should enforce the token types a route accepts", async () => {
+		const { clerkMock, app } = createApp();
+		const apiKey = clerkMock.issueMachineToken("api_key");
+
+		const mismatch = await app.handle(request("/cron/run", { token: apiKey }));
+		expect(mismatch.headers.get("x-clerk-auth-reason")).toBe("token-type-mismatch");
+		expect(await mismatch.json()).toMatchObject({
+			tokenType: "m2m_token",
+			isAuthenticated: false,
+			machineId: null,
+		});
+
+		const session = await app.handle(request("/partners/orders", { token: "valid-token" }));
+		expect(await session.json()).toMatchObject({ tokenType: null, isAuthenticated: false });
+
+		const missing = await app.handle(request("/cron/run"));
+		expect(missing.headers.get("x-clerk-auth-reason")).toBe("No token in header");
+
+		const user = await app.handle(request("/me", { token: apiKey }));
+		expect(user.headers.get("x-clerk-auth-reason")).toBe("token-type-mismatch");
+		expect(await (await app.handle(request("/me", { token: "valid-token" }))).json()).toEqual({
+			userId: "user_default",
+		});
+	});
+
+	it("should sign out revoked and expired machine tokens", async () => {
+		const { clerkMock, app } = createApp();
+		const revoked = clerkMock.issueMachineToken("m2m_token");
+		const expiring = clerkMock.issueMachineToken("m2m_token", { expiresIn: "1h" });
+		clerkMock.revokeMachineToken(revoked);
+
+		const response = await app.handle(request("/cron/run", { token: revoked }));
+		expect(response.headers.get("x-clerk-auth-reason")).toBe("token-invalid");
+		expect(response.headers.get("x-clerk-auth-message")).toMatch(/^M2M token mt_\w+ is revoked$/);
+
+		expect(
+			(await (await app.handle(request("/cron/run", { token: expiring }))).json()).isAuthenticated
+		).toBe(true);
+		clerkMock.clock.advance("1h");
+		expect(
+			(await (await app.handle(request("/cron/run", { token: expiring }))).json()).isAuthenticated
+		).toBe(false);
+	});
+
+	it("should report the token type from authenticateRequest", async () => {
+		const clerkMock = createClerkMock();
+		const clerk = new Elysia().use(clerkMock.plugin()).decorator.clerk;
+		const token = clerkMock.issueMachineToken("oauth_token", { clientId: "client_partner" });
+
+		const state = await clerk.authenticateRequest(request("/", { token: token }), {
+			acceptsToken: "any",
+		});
+		expect(state.tokenType).toBe("oauth_token");
+		expect(state.toAuth()).toMatchObject({ userId: "user_default", clientId: "client_partner" });
+		expect(await state.toAuth()!.getToken()).toBe(token);
+	});
+});
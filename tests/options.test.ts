@@ -0,0 +1,106 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { Elysia } from "elysia";
+import { createClerkMock } from "../index";
+
+const publishableKey = (frontendApi: string, prefix = "pk_test_") =>
+	`${prefix}${Buffer.from(`${frontendApi}$`).toString("base64")}`;
+
+const request = (headers: Record<string, string> = {}, url = "http://localhost/") =>
+	new Request(url, { headers });
+
+describe("Plugin options", () => {
+	it("should reject tokens issued to parties that aren't authorized", async () => {
+		const clerkMock = createClerkMock();
+		clerkMock.registerToken("foreign-token", { sessionClaims: { azp: "https://evil.example" } });
+		const app = new Elysia()
+			.use(clerkMock.plugin({ authorizedParties: ["https://app.example.com"] }))
+			.get("/", ({ auth }) => auth.userId ?? "signed out");
+
+		const response = await app.handle(request({ Authorization: "Bearer foreign-token" }));
+		expect(await response.text()).toBe("signed out");
+		expect(response.headers.get("x-clerk-auth-reason")).toBe("token-invalid-authorized-parties");
+		const allowed = await app.handle(request({ Authorization: "Bearer valid-token" }));
+		expect(await allowed.text()).toBe("user_default");
+	});
+
+	it("should verify tokens against the jwtKey", async () => {
+		const clerkMock = createClerkMock();
+		const app = new Elysia()
+			.use(clerkMock.plugin({ jwtKey: clerkMock.getJwtKey() }))
+			.get("/", ({ auth }) => auth.userId ?? "signed out");
+		const reasonFor = async (token: string) =>
+			(await app.handle(request({ Authorization: `Bearer ${token}` }))).headers.get(
+				"x-clerk-auth-reason"
+			);
+
+		const token = (await clerkMock.getUser().getToken())!;
+		expect(await (await app.handle(request({ Authorization: `Bearer ${token}` }))).text()).toBe(
+			"user_default"
+		);
+		expect(await reasonFor("valid-token")).toBe("token-invalid");
+		const otherToken = (await createClerkMock().getUser().getToken())!;
+		expect(await reasonFor(otherToken)).toBe("token-invalid-signature");
+	});
+
+	it("should raise Clerk's configuration errors for missing keys", async () => {
+		const clerkMock = createClerkMock(undefined, { requireKeys: true });
+		const errorFor = async (options: Parameters<typeof clerkMock.plugin>[0]) => {
+			const app = new Elysia().use(clerkMock.plugin(options)).get("/", () => "ok");
+			const response = await app.handle(request({ Authorization: "Bearer valid-token" }));
+			expect(response.status).toBe(500);
+			return response.text();
+		};
+
+		expect(await errorFor({ secretKey: "sk_test_123" })).toStartWith("Publishable key is missing.");
+		expect(await errorFor({ publishableKey: "pk_test_123", secretKey: "sk_test_123" })).toBe(
+			"Publishable key not valid."
+		);
+		expect(
+			await errorFor({ publishableKey: publishableKey("app.clerk.accounts.dev") })
+		).toStartWith("Missing Clerk Secret Key.");
+	});
+
+	it("should derive the handshake target from the publishable key", async () => {
+		const clerkMock = createClerkMock();
+		const app = new Elysia()
+			.use(clerkMock.plugin({ publishableKey: publishableKey("app.clerk.accounts.dev") }))
+			.get("/", () => "ok");
+
+		const response = await app.handle(request({ "sec-fetch-dest": "document" }));
+		expect(response.status).toBe(307);
+		const location = new URL(response.headers.get("location")!);
+		expect(location.host).toBe("app.clerk.accounts.dev");
+		expect(location.searchParams.get("__clerk_hs_reason")).toBe("dev-browser-missing");
+	});
+
+	it("should send satellite document requests to the signInUrl to sync", async () => {
+		const clerkMock = createClerkMock(undefined, { instanceType: "development" });
+		const satellite = {
+			isSatellite: true,
+			domain: "satellite.example.com",
+			signInUrl: "https://primary.example.com/sign-in",
+			signUpUrl: "https://primary.example.com/sign-up",
+		};
+		const app = new Elysia().use(clerkMock.plugin(satellite)).get("/", ({ auth }) => auth.debug());
+
+		const response = await app.handle(
+			request({ "sec-fetch-dest": "document" }, "https://satellite.example.com/?tab=billing")
+		);
+		expect(response.status).toBe(307);
+		const location = new URL(response.headers.get("location")!);
+		expect(location.origin + location.pathname).toBe(satellite.signInUrl);
+		expect(location.searchParams.get("__clerk_redirect_url")).toBe(
+			"https://satellite.example.com/?tab=billing"
+		);
+
+		const api = await app.handle(request({}, "https://satellite.example.com/"));
+		expect(await api.json()).toMatchObject({ isSatellite: true, signUpUrl: satellite.signUpUrl });
+
+		const misconfigured = new Elysia()
+			.use(clerkMock.plugin({ ...satellite, signInUrl: undefined }))
+			.get("/", () => "ok");
+		expect(await (await misconfigured.handle(request())).text()).toStartWith("Missing signInUrl.");
+	});
+});
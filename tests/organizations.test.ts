@@ -0,0 +1,89 @@
+/** @format */
+
+import { beforeEach, describe, expect, it } from "bun:test";
+import { ClerkAPIResponseError } from "../src/api";
+import { MockClock } from "../src/clock";
+import { OrganizationStore, createOrganizationApi } from "../src/organizations";
+import { UserStore } from "../src/users";
+
+describe("Mocked organizations API", () => {
+	let organizations: ReturnType<typeof createOrganizationApi>;
+
+	beforeEach(() => {
+		const clock = new MockClock();
+		const users = new UserStore(clock);
+		users.seed([{ id: "user_ada", firstName: "Ada", emailAddresses: ["ada@example.com"] }]);
+		const store = new OrganizationStore(users, clock, { "org:billing": ["org:invoices:read"] });
+		store.seed([
+			{ id: "org_acme", name: "Acme Inc", members: [{ userId: "user_owner", role: "org:admin" }] },
+		]);
+		organizations = createOrganizationApi(store, users);
+	});
+
+	it("should look organizations up by id or slug", async () => {
+		const byId = await organizations.getOrganization({ organizationId: "org_acme" });
+		const bySlug = await organizations.getOrganization({ slug: "acme-inc" });
+
+		expect(byId.name).toBe("Acme Inc");
+		expect(bySlug.id).toBe("org_acme");
+		expect(bySlug.membersCount).toBe(1);
+	});
+
+	it("should create, update and list memberships with role permissions", async () => {
+		const created = await organizations.createOrganizationMembership({
+			organizationId: "org_acme",
+			userId: "user_ada",
+			role: "org:member",
+		});
+		expect(created.role).toBe("org:member");
+		expect(created.publicUserData?.identifier).toBe("ada@example.com");
+
+		const updated = await organizations.updateOrganizationMembership({
+			organizationId: "org_acme",
+			userId: "user_ada",
+			role: "org:billing",
+		});
+		expect(updated.id).toBe(created.id);
+		expect(updated.permissions).toEqual(["org:invoices:read"]);
+
+		const { data, totalCount } = await organizations.getOrganizationMembershipList({
+			organizationId: "org_acme",
+		});
+		expect(totalCount).toBe(2);
+		expect(data.map(({ publicUserData }) => publicUserData?.userId).sort()).toEqual([
+			"user_ada",
+			"user_owner",
+		]);
+	});
+
+	it("should reject duplicate memberships and unknown records", async () => {
+		const duplicate = await organizations
+			.createOrganizationMembership({
+				organizationId: "org_acme",
+				userId: "user_owner",
+				role: "org:member",
+			})
+			.catch((error) => error);
+		expect(duplicate).toBeInstanceOf(ClerkAPIResponseError);
+		expect(duplicate.status).toBe(422);
+
+		await expect(
+			organizations.getOrganization({ organizationId: "org_missing" })
+		).rejects.toBeInstanceOf(ClerkAPIResponseError);
+		await expect(
+			organizations.updateOrganizationMembership({
+				organizationId: "org_acme",
+				userId: "user_ada",
+				role: "org:admin",
+			})
+		).rejects.toBeInstanceOf(ClerkAPIResponseError);
+	});
+
+	it("should not create organizations for unknown creators", async () => {
+		await expect(
+			organizations.createOrganization({ name: "Ghost Inc", createdBy: "user_missing" })
+		).rejects.toMatchObject({ status: 404 });
+		const { totalCount } = await organizations.getOrganizationList({ query: "Ghost" });
+		expect(totalCount).toBe(0);
+	});
+});
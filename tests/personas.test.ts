@@ -0,0 +1,97 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { Elysia } from "elysia";
+import { createClerkMock } from "../index";
+
+describe("Personas", () => {
+	const createMock = () =>
+		createClerkMock(undefined, {
+			personas: {
+				billingManager: {
+					extends: "user",
+					userId: "user_billing",
+					sessionId: "sess_billing",
+					orgRole: "org:billing",
+					orgPermissions: ["org:invoices:manage"],
+					sessionClaims: { pla: "o:pro" },
+				},
+				suspendedUser: { extends: "billingManager", userId: "user_suspended" },
+			},
+		});
+
+	it("should activate personas with inherited data and derived claims", () => {
+		const clerkMock = createMock();
+
+		const billing = clerkMock.as("billingManager");
+		expect(billing.userId).toBe("user_billing");
+		expect(billing.orgId).toBe("org_regular");
+		expect(billing.sessionClaims).toMatchObject({
+			sub: "user_billing",
+			sid: "sess_billing",
+			roles: ["org:member"],
+			pla: "o:pro",
+		});
+		expect(billing.has({ permission: "org:invoices:manage" })).toBe(true);
+
+		const suspended = clerkMock.as("suspendedUser", { sessionId: "sess_override" });
+		expect(suspended.orgRole).toBe("org:billing");
+		expect(suspended.sessionClaims).toMatchObject({ sub: "user_suspended", sid: "sess_override" });
+	});
+
+	it("should not carry state over between mockAdmin and mockUser", () => {
+		const clerkMock = createMock();
+
+		clerkMock.mockUser({ sessionClaims: { tier: "gold" } });
+		expect(clerkMock.mockAdmin().sessionClaims).not.toHaveProperty("tier");
+
+		clerkMock.mockImpersonation({ impersonator: "user_support" });
+		const user = clerkMock.mockUser();
+		expect(user.actor).toBeUndefined();
+		expect(user.sessionClaims).not.toHaveProperty("act");
+		expect(user.sessionId).toBe("sess_user");
+	});
+
+	it("should merge session claim overrides into the persona's claims", () => {
+		const clerkMock = createMock();
+
+		const admin = clerkMock.mockAdmin({ sessionClaims: { tier: "gold" } });
+		expect(admin.sessionClaims).toMatchObject({ roles: ["org:admin"], tier: "gold" });
+	});
+
+	it("should keep the current user when a persona fails validation", () => {
+		const clerkMock = createMock();
+		clerkMock.mockUser();
+
+		expect(() => clerkMock.mockAdmin({ orgId: null })).toThrow("Invalid mock auth state");
+		expect(clerkMock.getUser().userId).toBe("user_regular");
+	});
+
+	it("should load personas from a fixture file", async () => {
+		const clerkMock = createMock();
+		await clerkMock.loadPersonas("tests/fixtures/personas.json");
+
+		const guest = clerkMock.as("guestInOrgB");
+		expect(guest).toMatchObject({ userId: "user_org_b", orgId: "org_b", orgRole: "org:guest" });
+		expect(guest.sessionClaims?.sid).toBe("sess_org_b");
+	});
+
+	it("should resolve personas named in the identity header", async () => {
+		const clerkMock = createMock();
+		const app = new Elysia().use(clerkMock.plugin()).get("/", ({ auth }) => auth.orgRole);
+
+		const response = await app.handle(
+			new Request("http://localhost/", { headers: { "x-clerk-mock-identity": "billingManager" } })
+		);
+
+		expect(await response.text()).toBe("org:billing");
+	});
+
+	it("should reject unknown personas and circular inheritance", () => {
+		const clerkMock = createMock();
+		clerkMock.definePersonas({ a: { extends: "b" }, b: { extends: "a" } });
+
+		expect(() => clerkMock.as("missing")).toThrow('Unknown persona "missing"');
+		expect(() => clerkMock.as("a")).toThrow("Circular persona inheritance: a -> b -> a");
+	});
+});
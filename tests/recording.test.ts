@@ -0,0 +1,99 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { Elysia } from "elysia";
+import { clerkMatchers, createClerkMock } from "../index";
+import { request } from "./helpers";
+
+expect.extend(clerkMatchers);
+
+describe("Recording", () => {
+	const createApp = () => {
+		const clerkMock = createClerkMock(undefined, { requireAuth: true });
+		clerkMock.mockAdmin();
+		const app = new Elysia()
+			.use(clerkMock.plugin())
+			.get("/admin", ({ auth, error }) =>
+				auth.has({ role: "org:admin" }) ? "ok" : error(403, "Forbidden")
+			)
+			.get("/billing", ({ auth, error }) =>
+				auth.has({ permission: "org:invoices:manage" }) ? "ok" : error(403, "Forbidden")
+			)
+			.get("/settings", ({ auth, error }) =>
+				auth.has({ reverification: { level: "first_factor", afterMinutes: 5 } })
+					? "ok"
+					: error(403, "Forbidden")
+			);
+		return { clerkMock, app };
+	};
+
+	it("should record each authenticated request with its credential and identity", async () => {
+		const { clerkMock, app } = createApp();
+
+		await app.handle(request("/admin", { token: "valid-token" }));
+		await app.handle(request("/admin", { headers: { "x-clerk-mock-identity": "user" } }));
+		await app.handle(request("/billing"));
+
+		expect(clerkMock.calls).toHaveLength(3);
+		expect(clerkMock.calls[0]).toMatchObject({
+			method: "GET",
+			path: "/admin",
+			credential: { type: "bearer", token: "valid-token" },
+			status: "signed-in",
+			reason: null,
+			userId: "user_admin",
+			checks: [{ params: { role: "org:admin" }, result: true }],
+		});
+		expect(clerkMock.calls[1]).toMatchObject({
+			credential: { type: "identity-header" },
+			userId: "user_regular",
+			checks: [{ params: { role: "org:admin" }, result: false }],
+		});
+		expect(clerkMock.calls[2]).toMatchObject({
+			path: "/billing",
+			credential: { type: "none" },
+			status: "signed-out",
+			userId: null,
+			checks: [],
+		});
+		expect(clerkMock.calls.filter((call) => call.status === "signed-in")).toHaveLength(2);
+
+		clerkMock.reset();
+		expect(clerkMock.calls).toHaveLength(0);
+	});
+
+	it("should assert on recorded requests through the matchers", async () => {
+		const { clerkMock, app } = createApp();
+
+		await app.handle(request("/admin", { token: "valid-token" }));
+		await app.handle(request("/billing"));
+
+		expect(clerkMock).toHaveAuthorized("/admin", "user_admin");
+		expect(clerkMock).not.toHaveAuthorized("/admin", "user_regular");
+		expect(clerkMock).not.toHaveAuthorized("/billing");
+		expect(clerkMock).toHaveRejected(/^\/bill/);
+		expect(clerkMock).toHaveCheckedAuthorization({ role: "org:admin" }, { result: true });
+		expect(clerkMock).not.toHaveCheckedAuthorization(
+			{ permission: "org:invoices:manage" },
+			{ path: "/billing" }
+		);
+
+		expect(() => expect(clerkMock).toHaveAuthorized("/billing")).toThrow(
+			"GET /billing -> signed-out"
+		);
+	});
+
+	it("should match object valued authorization params", async () => {
+		const { clerkMock, app } = createApp();
+
+		await app.handle(request("/settings", { token: "valid-token" }));
+
+		expect(clerkMock).toHaveCheckedAuthorization(
+			{ reverification: { level: "first_factor", afterMinutes: 5 } },
+			{ path: "/settings" }
+		);
+		expect(clerkMock).not.toHaveCheckedAuthorization({
+			reverification: { level: "second_factor", afterMinutes: 5 },
+		});
+	});
+});
@@ -0,0 +1,113 @@
+/** @format */
+
+import { afterAll, describe, expect, it } from "bun:test";
+import { createClerkClient } from "@clerk/backend";
+import { Elysia } from "elysia";
+import { createClerkMock } from "../index";
+
+describe("Backend API server", () => {
+	const clerkMock = createClerkMock(undefined, {
+		users: [{ id: "user_ada", firstName: "Ada", emailAddresses: ["ada@example.com"] }],
+		organizations: [
+			{ id: "org_acme", name: "Acme Inc", members: [{ userId: "user_ada", role: "org:admin" }] },
+			{ id: "team_beta", name: "Beta", slug: "org_beta" },
+		],
+	});
+	const server = clerkMock.backendApi({ secretKey: "sk_test_mock" }).listen(0);
+	const apiUrl = `http://localhost:${server.server!.port}`;
+	const clerk = createClerkClient({ secretKey: "sk_test_mock", apiUrl });
+
+	afterAll(() => server.stop());
+
+	it("should serve users and organizations to the real SDK", async () => {
+		const user = await clerk.users.getUser("user_ada");
+		expect(user.firstName).toBe("Ada");
+		expect(user.primaryEmailAddress?.emailAddress).toBe("ada@example.com");
+
+		const { data, totalCount } = await clerk.users.getUserList({
+			emailAddress: ["ada@example.com"],
+		});
+		expect(totalCount).toBe(1);
+		expect(data[0].id).toBe("user_ada");
+
+		const organization = await clerk.organizations.getOrganization({ slug: "acme-inc" });
+		expect(organization.id).toBe("org_acme");
+
+		const memberships = await clerk.organizations.getOrganizationMembershipList({
+			organizationId: "org_acme",
+		});
+		expect(memberships.totalCount).toBe(1);
+		expect(memberships.data[0].role).toBe("org:admin");
+	});
+
+	it("should look organizations up by id before slug", async () => {
+		const byId = await clerk.organizations.getOrganization({ organizationId: "team_beta" });
+		expect(byId.slug).toBe("org_beta");
+
+		const bySlug = await clerk.organizations.getOrganization({ slug: "org_beta" });
+		expect(bySlug.id).toBe("team_beta");
+	});
+
+	it("should share state with the in-process client", async () => {
+		const inProcess = new Elysia().use(clerkMock.plugin()).decorator.clerk;
+
+		await clerk.users.updateUserMetadata("user_ada", { publicMetadata: { plan: "pro" } });
+		expect((await inProcess.users.getUser("user_ada")).publicMetadata).toEqual({ plan: "pro" });
+
+		await inProcess.users.banUser("user_ada");
+		expect((await clerk.users.getUser("user_ada")).banned).toBe(true);
+	});
+
+	it("should mint session and template tokens", async () => {
+		clerkMock.mockUser();
+		clerkMock.setJwtTemplate("supabase", { claims: { aud: "authenticated" } });
+		const { sessionId } = clerkMock.getUser();
+
+		const { jwt } = await clerk.sessions.getToken(sessionId!, "supabase");
+		const payload = JSON.parse(Buffer.from(jwt.split(".")[1], "base64url").toString());
+		expect(payload).toMatchObject({ aud: "authenticated", sub: "user_regular" });
+		await expect(clerk.sessions.getToken(sessionId!, "firebase")).rejects.toMatchObject({
+			status: 404,
+		});
+	});
+
+	it("should verify sessions and serve the JWKS", async () => {
+		clerkMock.mockUser();
+		const { sessionId, getToken } = clerkMock.getUser();
+		const token = (await getToken())!;
+
+		const session = await clerk.sessions.verifySession(sessionId!, token);
+		expect(session.userId).toBe("user_regular");
+		await expect(clerk.sessions.verifySession(sessionId!, "not-a-token")).rejects.toMatchObject({
+			status: 400,
+			errors: [{ code: "session_token_invalid" }],
+		});
+
+		await clerk.sessions.revokeSession(sessionId!);
+		expect((await clerk.sessions.getSession(sessionId!)).status).toBe("revoked");
+
+		const jwks = await fetch(`${apiUrl}/v1/jwks`, {
+			headers: { Authorization: "Bearer sk_test_mock" },
+		});
+		expect(await jwks.json()).toEqual(clerkMock.getJwks());
+	});
+
+	it("should respond with Backend API errors", async () => {
+		await expect(clerk.users.getUser("user_missing")).rejects.toMatchObject({
+			status: 404,
+			errors: [{ code: "resource_not_found" }],
+		});
+
+		clerkMock.injectFault("users.getUser", { status: 429, retryAfter: 5, times: 1 });
+		const limited = await fetch(`${apiUrl}/v1/users/user_ada`, {
+			headers: { Authorization: "Bearer sk_test_mock" },
+		});
+		expect(limited.status).toBe(429);
+		expect(limited.headers.get("retry-after")).toBe("5");
+
+		const unauthorized = await fetch(`${apiUrl}/v1/users/user_ada`, {
+			headers: { Authorization: "Bearer sk_test_other" },
+		});
+		expect(unauthorized.status).toBe(401);
+	});
+});
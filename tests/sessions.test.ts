@@ -0,0 +1,135 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { Elysia } from "elysia";
+import { createClerkMock, reverificationErrorResponse } from "../index";
+
+const request = (token: string) =>
+	new Request("http://localhost/", { headers: { Authorization: `Bearer ${token}` } });
+
+describe("Session lifecycle", () => {
+	it("should expire session tokens on the mock clock and mint new ones", async () => {
+		const clerkMock = createClerkMock(undefined, { verifyTokens: true, requireAuth: true });
+		clerkMock.mockAdmin();
+		const app = new Elysia().use(clerkMock.plugin()).get("/", ({ auth }) => auth.userId);
+
+		const token = (await clerkMock.getUser().getToken())!;
+		expect(await (await app.handle(request(token))).text()).toBe("user_admin");
+
+		// Tokens live for 60 seconds, plus the 5 seconds of clock skew verification tolerates
+		clerkMock.clock.advance("66s");
+		const expired = await app.handle(request(token));
+		expect(expired.status).toBe(401);
+		expect(expired.headers.get("x-clerk-auth-reason")).toBe(
+			"session-token-expired-refresh-non-eligible-no-refresh-cookie"
+		);
+
+		const refreshed = (await clerkMock.getUser().getToken())!;
+		expect(refreshed).not.toBe(token);
+		expect(await (await app.handle(request(refreshed))).text()).toBe("user_admin");
+	});
+
+	it("should sign out requests once the session is revoked", async () => {
+		const clerkMock = createClerkMock(undefined, { requireAuth: true });
+		clerkMock.mockUser();
+		const app = new Elysia()
+			.use(clerkMock.plugin())
+			.get("/", ({ auth }) => auth.userId)
+			.delete("/sessions/:id", ({ clerk, params }) => clerk.sessions.revokeSession(params.id));
+
+		expect((await app.handle(request("valid-token"))).status).toBe(200);
+		const revoked = await app.handle(
+			new Request("http://localhost/sessions/sess_user", {
+				method: "DELETE",
+				headers: { Authorization: "Bearer valid-token" },
+			})
+		);
+		expect(await revoked.json()).toMatchObject({ id: "sess_user", status: "revoked" });
+
+		const response = await app.handle(request("valid-token"));
+		expect(response.status).toBe(401);
+		expect(response.headers.get("x-clerk-auth-message")).toContain("Session sess_user is revoked");
+		expect(await clerkMock.getUser().getToken()).toBeNull();
+	});
+
+	it("should track session status through ending, expiry and reset", async () => {
+		const clerkMock = createClerkMock();
+		const clerk = new Elysia().use(clerkMock.plugin()).decorator.clerk;
+		clerkMock.registerToken("other-device", { userId: "user_default", sessionId: "sess_other" });
+
+		expect(clerkMock.endSession("sess_other").status).toBe("ended");
+		clerkMock.clock.advance("7d");
+		const { data } = await clerk.sessions.getSessionList({ userId: "user_default" });
+		expect(data.map(({ id, status }) => [id, status]).sort()).toEqual([
+			["sess_default", "expired"],
+			["sess_other", "ended"],
+		]);
+		expect(() => clerkMock.clock.advance("a week")).toThrow('Invalid duration "a week"');
+
+		clerkMock.reset();
+		expect((await clerk.sessions.getSession("sess_default")).status).toBe("active");
+		await expect(clerk.sessions.getSession("sess_other")).rejects.toMatchObject({ status: 404 });
+	});
+
+	it("should timestamp users, memberships and webhook events with the mock clock", async () => {
+		const clerkMock = createClerkMock();
+		const clerk = new Elysia().use(clerkMock.plugin()).decorator.clerk;
+		// The mock clock keeps running from where it was set
+		const at = (time: number) => [time, time + 1000] as const;
+		const now = clerkMock.clock.set(new Date("2030-01-01T00:00:00Z"));
+
+		clerkMock.seedUsers([{ id: "user_ada" }]);
+		expect((await clerk.users.getUser("user_ada")).createdAt).toBeWithin(...at(now));
+
+		const later = clerkMock.clock.advance("1h");
+		const user = await clerk.users.updateUserMetadata("user_ada", { publicMetadata: { a: 1 } });
+		expect(user.updatedAt).toBeWithin(...at(later));
+		const membership = await clerk.organizations.createOrganizationMembership({
+			organizationId: "org_default",
+			userId: "user_ada",
+			role: "org:member",
+		});
+		expect(membership.createdAt).toBeWithin(...at(later));
+
+		const { payload } = clerkMock.webhooks.build("session.created", { id: "sess_new" });
+		expect((payload as { timestamp: number }).timestamp).toBeWithin(...at(later));
+		expect((payload.data as { created_at: number }).created_at).toBeWithin(...at(later));
+	});
+
+	it("should age factor verification with the clock for reverification checks", async () => {
+		const clerkMock = createClerkMock();
+		const app = new Elysia()
+			.use(clerkMock.plugin())
+			.post("/transfers", ({ auth }) =>
+				auth.has({ reverification: "strict" }) ? "sent" : reverificationErrorResponse("strict")
+			);
+		const transfer = () =>
+			app.handle(
+				new Request("http://localhost/transfers", {
+					method: "POST",
+					headers: { Authorization: "Bearer valid-token" },
+				})
+			);
+
+		const user = clerkMock.verifyFactors({ firstFactor: "2m", secondFactor: "5m" });
+		expect(user.factorVerificationAge).toEqual([2, 5]);
+		expect(await (await transfer()).text()).toBe("sent");
+
+		clerkMock.clock.advance("6m");
+		const response = await transfer();
+		expect(response.status).toBe(403);
+		expect(await response.json()).toEqual({
+			clerk_error: {
+				type: "forbidden",
+				reason: "reverification-error",
+				metadata: { reverification: "strict" },
+			},
+		});
+
+		// Without a second factor, `strict_mfa` falls back to the first factor like Clerk does
+		clerkMock.verifyFactors();
+		expect(clerkMock.getUser().has({ reverification: "strict_mfa" })).toBe(true);
+		const [, payload] = (await clerkMock.getUser().getToken())!.split(".");
+		expect(JSON.parse(Buffer.from(payload, "base64url").toString()).fva).toEqual([0, -1]);
+	});
+});
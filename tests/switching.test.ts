@@ -0,0 +1,168 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { Elysia } from "elysia";
+import { createClerkMock } from "../index";
+
+const request = (url: string, token = "valid-token") =>
+	new Request(url, { headers: { Authorization: `Bearer ${token}` } });
+
+const createMock = () =>
+	createClerkMock(undefined, {
+		organizations: [
+			{ id: "org_acme", slug: "acme", members: [{ userId: "user_default", role: "org:admin" }] },
+			{ id: "org_globex", slug: "globex", members: [{ userId: "user_other", role: "org:admin" }] },
+		],
+	});
+
+const activeOrg = ({ auth }: { auth: { orgId?: string | null; orgRole?: string | null } }) => ({
+	orgId: auth.orgId ?? null,
+	orgRole: auth.orgRole ?? null,
+});
+
+describe("Organization switching", () => {
+	it("should switch the active organization of the mock user's session", async () => {
+		const clerkMock = createMock();
+		const app = new Elysia().use(clerkMock.plugin()).get("/", activeOrg);
+		const clerk = new Elysia().use(clerkMock.plugin()).decorator.clerk;
+
+		expect(clerkMock.switchOrganization("org_acme")).toMatchObject({
+			orgId: "org_acme",
+			orgRole: "org:admin",
+			orgSlug: "acme",
+		});
+		expect(await (await app.handle(request("http://localhost/"))).json()).toEqual({
+			orgId: "org_acme",
+			orgRole: "org:admin",
+		});
+		expect((await clerk.sessions.getSession("sess_default")).lastActiveOrganizationId).toBe(
+			"org_acme"
+		);
+
+		clerkMock.switchOrganization(null);
+		expect(await (await app.handle(request("http://localhost/"))).json()).toEqual({
+			orgId: null,
+			orgRole: null,
+		});
+		const token = (await clerkMock.getUser().getToken())!;
+		const payload = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString());
+		expect(payload).not.toHaveProperty("org_id");
+
+		clerkMock.reset();
+		expect(clerkMock.getUser().orgId).toBe("org_default");
+	});
+
+	it("should only switch to organizations the user is a member of", () => {
+		const clerkMock = createMock();
+		expect(() => clerkMock.switchOrganization("org_globex")).toThrow(
+			"User user_default is not a member of organization org_globex"
+		);
+		expect(() => clerkMock.switchOrganization("org_acme", { sessionId: "sess_missing" })).toThrow(
+			'Unknown session "sess_missing"'
+		);
+		clerkMock.mockUnauthenticated();
+		expect(() => clerkMock.switchOrganization(null)).toThrow(
+			"Can't switch organizations while signed out"
+		);
+	});
+
+	it("should switch registered tokens by their session", async () => {
+		const clerkMock = createMock();
+		const app = new Elysia().use(clerkMock.plugin()).get("/", activeOrg);
+		clerkMock.registerToken("other-token", {
+			userId: "user_other",
+			sessionId: "sess_other",
+			orgId: undefined,
+			orgRole: undefined,
+		});
+
+		clerkMock.switchOrganization("org_globex", { sessionId: "sess_other" });
+		expect(await (await app.handle(request("http://localhost/", "other-token"))).json()).toEqual({
+			orgId: "org_globex",
+			orgRole: "org:admin",
+		});
+		expect(clerkMock.getUser().orgId).toBe("org_default");
+	});
+});
+
+describe("Organization sync", () => {
+	const createApp = () => {
+		const clerkMock = createMock();
+		const app = new Elysia()
+			.use(
+				clerkMock.plugin({
+					organizationSyncOptions: {
+						organizationPatterns: ["/orgs/:slug", "/orgs/:slug/(.*)", ":slug.app.test"],
+						personalAccountPatterns: ["/me", "/me/(.*)"],
+					},
+				})
+			)
+			.get("/", activeOrg)
+			.get("/me", activeOrg)
+			.get("/orgs/:slug/projects", activeOrg);
+		return { clerkMock, app };
+	};
+
+	it("should activate the organization in the URL path or subdomain", async () => {
+		const { clerkMock, app } = createApp();
+
+		const projects = await app.handle(request("http://localhost/orgs/acme/projects"));
+		expect(await projects.json()).toEqual({ orgId: "org_acme", orgRole: "org:admin" });
+		// The session keeps the organization on routes without one, as after Clerk's handshake
+		expect(await (await app.handle(request("http://localhost/"))).json()).toMatchObject({
+			orgId: "org_acme",
+		});
+		expect(clerkMock.getUser().orgId).toBe("org_acme");
+
+		expect(await (await app.handle(request("http://localhost/me"))).json()).toEqual({
+			orgId: null,
+			orgRole: null,
+		});
+		expect(await (await app.handle(request("http://acme.app.test/"))).json()).toMatchObject({
+			orgId: "org_acme",
+		});
+	});
+
+	it("should leave the active organization unchanged without a membership", async () => {
+		const { app } = createApp();
+
+		for (const url of [
+			"http://localhost/orgs/globex/projects",
+			"http://localhost/orgs/missing/projects",
+		]) {
+			expect(await (await app.handle(request(url))).json()).toEqual({
+				orgId: "org_default",
+				orgRole: "org:member",
+			});
+		}
+	});
+
+	it("should ignore organizations with malformed percent-encoding", async () => {
+		const { app } = createApp();
+		const response = await app.handle(request("http://localhost/orgs/%E0%A4%A/projects"));
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ orgId: "org_default" });
+	});
+
+	it("should sync request scoped identities for the request", async () => {
+		const { clerkMock, app } = createApp();
+		const identity = (url: string, header: string) =>
+			app.handle(new Request(url, { headers: { "x-clerk-mock-identity": header } }));
+
+		const personal = await identity("http://localhost/me", "admin");
+		expect(await personal.json()).toEqual({ orgId: null, orgRole: null });
+
+		const other = await identity(
+			"http://localhost/orgs/globex/projects",
+			JSON.stringify({ userId: "user_other" })
+		);
+		expect(await other.json()).toEqual({ orgId: "org_globex", orgRole: "org:admin" });
+
+		const shared = await identity(
+			"http://localhost/orgs/acme/projects",
+			JSON.stringify({ userId: "user_default" })
+		);
+		expect(await shared.json()).toEqual({ orgId: "org_acme", orgRole: "org:admin" });
+		expect(clerkMock.getUser().orgId).toBe("org_default");
+	});
+});
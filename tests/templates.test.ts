@@ -0,0 +1,130 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { Elysia } from "elysia";
+import { createClerkMock } from "../index";
+import { request } from "./helpers";
+
+const decode = (token: string) =>
+	JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString());
+
+describe("Claim templates", () => {
+	const createApp = () => {
+		const clerkMock = createClerkMock(undefined, {
+			users: [
+				{
+					id: "user_regular",
+					emailAddresses: ["ada@example.com"],
+					publicMetadata: { tenant: "acme", limits: { seats: 5 } },
+				},
+			],
+			sessionTokenClaims: {
+				tenant: "{{user.public_metadata.tenant}}",
+				metadata: "{{user.public_metadata}}",
+				plan_tier: "{{user.public_metadata.tier || 'free'}}",
+				email: "{{user.primary_email_address}}",
+				greeting: "Hello {{user.public_metadata.tenant}} from {{org.slug}}",
+				missing: "{{user.public_metadata.nothing}}",
+			},
+			jwtTemplates: {
+				supabase: {
+					claims: {
+						aud: "authenticated",
+						role: "authenticated",
+						email: "{{user.primary_email_address}}",
+					},
+					lifetime: "1h",
+				},
+			},
+		});
+		clerkMock.mockUser();
+		const app = new Elysia()
+			.use(clerkMock.plugin())
+			.get("/claims", ({ auth }) => auth.sessionClaims)
+			.get("/supabase", async ({ auth }) =>
+				decode((await auth.getToken({ template: "supabase" }))!)
+			);
+		return { clerkMock, app };
+	};
+
+	it("should resolve custom session claims against the mocked user", async () => {
+		const { clerkMock, app } = createApp();
+		const claims = await (await app.handle(request("/claims", { token: "valid-token" }))).json();
+
+		expect(claims).toMatchObject({
+			sub: "user_regular",
+			tenant: "acme",
+			metadata: { tenant: "acme", limits: { seats: 5 } },
+			plan_tier: "free",
+			email: "ada@example.com",
+			greeting: "Hello acme from org_regular",
+		});
+		expect(claims).not.toHaveProperty("missing");
+		expect(decode(claims.__raw)).toMatchObject({ tenant: "acme", plan_tier: "free" });
+
+		const clerk = new Elysia().use(clerkMock.plugin()).decorator.clerk;
+		await clerk.users.updateUserMetadata("user_regular", { publicMetadata: { tier: "gold" } });
+		expect(
+			await (await app.handle(request("/claims", { token: "valid-token" }))).json()
+		).toMatchObject({
+			plan_tier: "gold",
+		});
+	});
+
+	it("should let claims set on the mock user win over the template", async () => {
+		const { clerkMock, app } = createApp();
+		clerkMock.mockUser({ sessionClaims: { tenant: "override" } });
+		expect(
+			await (await app.handle(request("/claims", { token: "valid-token" }))).json()
+		).toMatchObject({
+			tenant: "override",
+			plan_tier: "free",
+		});
+	});
+
+	it("should mint tokens from named JWT templates", async () => {
+		const { clerkMock, app } = createApp();
+		const payload = await (await app.handle(request("/supabase", { token: "valid-token" }))).json();
+
+		expect(payload).toMatchObject({
+			aud: "authenticated",
+			role: "authenticated",
+			email: "ada@example.com",
+			sub: "user_regular",
+		});
+		expect(payload.exp - payload.iat).toBe(3600);
+		expect(payload).not.toHaveProperty("sid");
+		expect(payload).not.toHaveProperty("tenant");
+
+		const session = decode((await clerkMock.getUser().getToken())!);
+		expect(session.exp - session.iat).toBe(60);
+		await expect(clerkMock.getUser().getToken({ template: "firebase" })).rejects.toMatchObject({
+			status: 404,
+			errors: [{ code: "resource_not_found" }],
+		});
+	});
+
+	it("should restore the configured templates on reset", async () => {
+		const { clerkMock, app } = createApp();
+		clerkMock.setSessionTokenClaims({ tenant: "{{org.role}}" });
+		clerkMock.setJwtTemplate("supabase", { claims: { aud: "anon" } });
+		expect(
+			await (await app.handle(request("/claims", { token: "valid-token" }))).json()
+		).toMatchObject({
+			tenant: "org:member",
+		});
+		expect(
+			await (await app.handle(request("/supabase", { token: "valid-token" }))).json()
+		).toMatchObject({
+			aud: "anon",
+		});
+
+		clerkMock.reset();
+		clerkMock.mockUser();
+		expect(
+			await (await app.handle(request("/supabase", { token: "valid-token" }))).json()
+		).toMatchObject({
+			aud: "authenticated",
+		});
+	});
+});
@@ -0,0 +1,81 @@
+/** @format */
+
+import { beforeEach, describe, expect, it } from "bun:test";
+import { ClerkAPIResponseError } from "../src/api";
+import { MockClock } from "../src/clock";
+import { UserStore, createUserApi } from "../src/users";
+
+describe("Mocked users API", () => {
+	let store: UserStore;
+	let users: ReturnType<typeof createUserApi>;
+
+	beforeEach(() => {
+		store = new UserStore(new MockClock());
+		users = createUserApi(store);
+		store.seed([
+			{
+				id: "user_a",
+				firstName: "Ada",
+				lastName: "Lovelace",
+				emailAddresses: ["ada@example.com"],
+				createdAt: 1,
+			},
+			{ id: "user_b", username: "grace", emailAddresses: ["grace@example.com"], createdAt: 2 },
+			{ id: "user_c", externalId: "ext_c", createdAt: 3 },
+		]);
+	});
+
+	it("should return records shaped like the backend User resource", async () => {
+		const user = await users.getUser("user_a");
+
+		expect(user.id).toBe("user_a");
+		expect(user.fullName).toBe("Ada Lovelace");
+		expect(user.primaryEmailAddress?.emailAddress).toBe("ada@example.com");
+		expect(user.raw?.object).toBe("user");
+	});
+
+	it("should throw a 404 API error for unknown users", async () => {
+		const error = await users.getUser("user_missing").catch((error) => error);
+
+		expect(error).toBeInstanceOf(ClerkAPIResponseError);
+		expect(error.status).toBe(404);
+		expect(error.errors[0].code).toBe("resource_not_found");
+	});
+
+	it("should filter, order and paginate user lists", async () => {
+		const newestFirst = await users.getUserList({ limit: 2 });
+		expect(newestFirst.data.map(({ id }) => id)).toEqual(["user_c", "user_b"]);
+		expect(newestFirst.totalCount).toBe(3);
+
+		const page = await users.getUserList({ orderBy: "+created_at", offset: 1, limit: 1 });
+		expect(page.data.map(({ id }) => id)).toEqual(["user_b"]);
+
+		const byEmail = await users.getUserList({ emailAddress: ["grace@example.com"] });
+		expect(byEmail.data.map(({ id }) => id)).toEqual(["user_b"]);
+
+		const byQuery = await users.getUserList({ query: "love" });
+		expect(byQuery.data.map(({ id }) => id)).toEqual(["user_a"]);
+		expect(await users.getCount({ externalId: ["ext_c"] })).toBe(1);
+	});
+
+	it("should deep merge metadata and drop keys set to null", async () => {
+		await users.updateUserMetadata("user_a", {
+			publicMetadata: { plan: "pro", limits: { seats: 5, projects: 2 } },
+		});
+		const user = await users.updateUserMetadata("user_a", {
+			publicMetadata: { plan: null, limits: { seats: 10 } },
+			privateMetadata: { stripeId: "cus_123" },
+		});
+
+		expect(user.publicMetadata).toEqual({ limits: { seats: 10, projects: 2 } });
+		expect(user.privateMetadata).toEqual({ stripeId: "cus_123" });
+	});
+
+	it("should ban and delete users", async () => {
+		expect((await users.banUser("user_b")).banned).toBe(true);
+
+		const deleted = await users.deleteUser("user_b");
+		expect(deleted.id).toBe("user_b");
+		await expect(users.getUser("user_b")).rejects.toBeInstanceOf(ClerkAPIResponseError);
+	});
+});
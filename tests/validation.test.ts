@@ -0,0 +1,81 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { validateAuthState, type AuthState } from "../src/validation";
+
+const signedIn: AuthState = {
+	userId: "user_123",
+	sessionId: "sess_123",
+	sessionClaims: {
+		sub: "user_123",
+		sid: "sess_123",
+		iss: "https://clerk.com",
+		iat: 1,
+		nbf: 1,
+		exp: 61,
+	},
+	actor: null,
+	orgId: "org_123",
+	orgRole: "org:member",
+	orgSlug: "acme",
+	orgPermissions: [],
+	factorVerificationAge: null,
+};
+
+const signedOut: AuthState = {
+	userId: null,
+	sessionId: null,
+	sessionClaims: null,
+	actor: null,
+	orgId: null,
+	orgRole: null,
+	orgSlug: null,
+	orgPermissions: null,
+	factorVerificationAge: null,
+};
+
+describe("Auth state validation", () => {
+	it("should accept consistent signed in and signed out states", () => {
+		expect(validateAuthState(signedIn)).toEqual([]);
+		expect(
+			validateAuthState({
+				...signedIn,
+				orgId: undefined,
+				orgRole: undefined,
+				orgSlug: undefined,
+				orgPermissions: undefined,
+			})
+		).toEqual([]);
+		expect(validateAuthState(signedOut)).toEqual([]);
+	});
+
+	it("should report claims that disagree with the session", () => {
+		expect(
+			validateAuthState({
+				...signedIn,
+				sessionClaims: { ...signedIn.sessionClaims, sub: "user_other", exp: 1 },
+			})
+		).toEqual([
+			"sessionClaims.sub (user_other) must match userId (user_123)",
+			"sessionClaims.exp must be after sessionClaims.iat",
+			"sessionClaims.exp must be after sessionClaims.nbf",
+		]);
+	});
+
+	it("should report organization and actor fields that can't occur together", () => {
+		expect(validateAuthState({ ...signedIn, orgId: null })).toEqual([
+			"orgRole requires an orgId",
+			"orgSlug requires an orgId",
+			"orgPermissions requires an orgId",
+		]);
+		expect(validateAuthState({ ...signedIn, orgRole: undefined })).toEqual([
+			"an active organization (orgId) needs an orgRole",
+		]);
+		expect(validateAuthState({ ...signedIn, actor: { iss: "dashboard" } })).toEqual([
+			"actor.sub must identify the impersonating user",
+		]);
+		expect(validateAuthState({ ...signedOut, orgId: "org_123" })).toEqual([
+			"orgId must be null when userId is null",
+		]);
+	});
+});
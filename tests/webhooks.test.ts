@@ -0,0 +1,83 @@
+/** @format */
+
+import { describe, expect, it } from "bun:test";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { ElysiaClerkMock } from "../index";
+
+const SECRET = `whsec_${Buffer.from("elysia-clerk-mock-secret").toString("base64")}`;
+
+// Minimal Svix verification, following the scheme documented by Svix
+const verify = (body: string, headers: Record<string, string>, secret = SECRET) => {
+	const timestamp = Number(headers["svix-timestamp"]);
+	if (Math.abs(Date.now() / 1000 - timestamp) > 5 * 60) {
+		return false;
+	}
+	const expected = createHmac("sha256", Buffer.from(secret.slice("whsec_".length), "base64"))
+		.update(`${headers["svix-id"]}.${timestamp}.${body}`)
+		.digest();
+	const [, signature] = headers["svix-signature"].split(",");
+	return timingSafeEqual(expected, Buffer.from(signature, "base64"));
+};
+
+describe("Webhook events", () => {
+	it("should sign events so Svix verification succeeds", () => {
+		const clerkMock = new ElysiaClerkMock(undefined, { webhookSecret: SECRET });
+		const { body, headers, payload } = clerkMock.webhooks.build("session.ended");
+
+		expect(verify(body, headers)).toBe(true);
+		expect(headers["svix-id"]).toStartWith("msg_");
+		expect(payload).toMatchObject({
+			object: "event",
+			type: "session.ended",
+			data: { object: "session", id: "sess_default", user_id: "user_default", status: "ended" },
+		});
+	});
+
+	it("should produce tampered, expired and foreign signatures that fail verification", () => {
+		const clerkMock = new ElysiaClerkMock(undefined, { webhookSecret: SECRET });
+
+		const tampered = clerkMock.webhooks.build("user.updated", {}, { tampered: true });
+		const expired = clerkMock.webhooks.build("user.updated", {}, { expired: true });
+		const foreign = clerkMock.webhooks.build(
+			"user.updated",
+			{},
+			{ secret: `whsec_${Buffer.from("other").toString("base64")}` }
+		);
+
+		expect(verify(tampered.body, tampered.headers)).toBe(false);
+		expect(verify(expired.body, expired.headers)).toBe(false);
+		expect(verify(foreign.body, foreign.headers)).toBe(false);
+	});
+
+	it("should fill event data from the user and organization stores", () => {
+		const clerkMock = new ElysiaClerkMock(undefined, {
+			users: [{ id: "user_ada", firstName: "Ada" }],
+			organizations: [{ id: "org_acme", members: [{ userId: "user_ada", role: "org:admin" }] }],
+		});
+
+		const user = clerkMock.webhooks.build("user.updated", {
+			id: "user_ada",
+			last_name: "Lovelace",
+		});
+		expect(user.payload.data).toMatchObject({
+			object: "user",
+			id: "user_ada",
+			first_name: "Ada",
+			last_name: "Lovelace",
+		});
+
+		const membership = clerkMock.webhooks.build("organizationMembership.updated", {
+			organization: { id: "org_acme" },
+			public_user_data: { user_id: "user_ada" },
+		});
+		expect(membership.payload.data).toMatchObject({
+			object: "organization_membership",
+			role: "org:admin",
+			organization: { id: "org_acme", slug: "org-acme" },
+			public_user_data: { user_id: "user_ada", first_name: "Ada" },
+		});
+
+		const deleted = clerkMock.webhooks.build("user.deleted", { id: "user_ada" });
+		expect(deleted.payload.data).toEqual({ object: "user", id: "user_ada", deleted: true });
+	});
+});